@@ -0,0 +1,57 @@
+import React from 'react';
+import { AnalysisFailure } from './analysisValidation';
+
+interface AnalysisErrorNoticeProps {
+  failure: AnalysisFailure;
+  onRetry: () => void;
+  onUsePartial: () => void;
+  onDismiss: () => void;
+}
+
+const AnalysisErrorNotice: React.FC<AnalysisErrorNoticeProps> = ({ failure, onRetry, onUsePartial, onDismiss }) => (
+  <div className="p-4 rounded-2xl border border-red-500/30 bg-red-500/10 space-y-3 text-xs">
+    <div className="flex items-start justify-between gap-3">
+      <p className="font-bold text-red-300">
+        <i className="fas fa-triangle-exclamation mr-2"></i>
+        Analysis failed: {failure.message}
+      </p>
+      <button onClick={onDismiss} className="text-zinc-500 hover:text-zinc-300 transition-colors" title="Dismiss">
+        <i className="fas fa-xmark"></i>
+      </button>
+    </div>
+    {failure.problems.length > 0 && (
+      <ul className="list-disc list-inside space-y-1 text-red-200/80">
+        {failure.problems.map((problem, i) => <li key={i}>{problem}</li>)}
+      </ul>
+    )}
+    <ul className="space-y-1 text-zinc-300">
+      {failure.suggestions.map((suggestion, i) => (
+        <li key={i}><i className="fas fa-lightbulb text-amber-400 mr-2"></i>{suggestion}</li>
+      ))}
+    </ul>
+    <div className="flex flex-wrap items-center gap-2">
+      <button
+        onClick={onRetry}
+        className="px-3 py-1.5 rounded-lg border border-white/10 text-zinc-200 hover:bg-white/5 transition-all"
+      >
+        <i className="fas fa-rotate-right mr-1"></i> Try Again
+      </button>
+      {failure.partial && (
+        <button
+          onClick={onUsePartial}
+          className="px-3 py-1.5 rounded-lg border border-white/10 text-zinc-200 hover:bg-white/5 transition-all"
+        >
+          <i className="fas fa-scissors mr-1"></i> Use the {failure.partial.scenes.length} scenes that came back
+        </button>
+      )}
+    </div>
+    {failure.rawText && (
+      <details className="text-zinc-500">
+        <summary className="cursor-pointer hover:text-zinc-300">Last model response</summary>
+        <pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap break-all p-2 rounded-lg bg-black/40 text-[10px]">{failure.rawText}</pre>
+      </details>
+    )}
+  </div>
+);
+
+export default AnalysisErrorNotice;
@@ -1,18 +1,85 @@
 
-import React, { useState, useCallback, useRef } from 'react';
-import { analyzeScript, generateImage } from './geminiService';
-import { AnalysisResult, ScenePrompt, CharacterInfo } from './types';
-import JSZip from 'jszip';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { defaultProviderId, getProvider, isProviderId, providers } from './providers';
+import { DEFAULT_QUEUE_OPTIONS, describeError, QueueOptions, QueueState } from './generationQueue';
+import { addReferenceImage, addTake, createId, createScene, insertScene, lockCharacterLook, mergeWithNext, moveScene, removeCharacter, removeLocation, removeReferenceImage, removeScene, removeTake, selectTake, splitScene, updateCharacter, updateLocation } from './sceneEditing';
+import { resolveAnalysis } from './characterResolver';
+import { buildCaptions, buildEdl, buildFcpxml, buildManifest, buildStoryboardPdf, buildZip, DEFAULT_EXPORT_OPTIONS, downloadBlob, ExportOptions, isExportable, manifestToCsv, sceneFileName, slugify } from './exporters';
+import { createProject, dataUrlToBlob, deleteProject, duplicateProject, exportProject, importProject, listProjects, loadProject, renameProject, saveProject } from './projectStore';
+import { importScriptFile, SCRIPT_FILE_ACCEPT } from './scriptImporters';
+import { DEFAULT_STYLE_PRESET } from './stylePresets';
+import { AnalysisFailure, explainAnalysisFailure } from './analysisValidation';
+import { AnalysisProgress } from './chunkedAnalysis';
+import { analyzeStep, checkSceneImage, CostEstimate, createGenerationRun, editSceneImage, estimateCheckCost, estimateEditCost, estimateGenerationCost, finalizeAnalysis, GenerationRun, remainingScenes } from './pipeline';
+import { buildQaReport, DEFAULT_QA_OPTIONS, isFlagged, qaReportToMarkdown, selectedReport } from './consistencyCheck';
+import { createBrowserImageCache, ImageCacheStats } from './imageCache';
+import { describeLanguage, detectLanguage, isEnglish } from './scriptLanguage';
+import { DEFAULT_OUTPUT_OPTIONS, processImage, processStoryboard } from './imageOutput';
+import { EMPTY_TOTALS, formatCost, formatTokens, loadPriceTable, onUsage, sumUsage, UsageTotals } from './usage';
+import { AnalysisResult, ImportedScript, OutputOptions, Project, ProjectSummary, ProviderId, QaOptions, ScenePrompt, StylePreset, UsageEntry } from './types';
+import CharacterSheet from './CharacterSheet';
+import LocationSheet from './LocationSheet';
+import ProjectPanel from './ProjectPanel';
+import SceneCard from './SceneCard';
+import ExportMenu, { ExportKind } from './ExportMenu';
+import StylePresetPanel from './StylePresetPanel';
+import OutputPresetPanel from './OutputPresetPanel';
+import AnalysisErrorNotice from './AnalysisErrorNotice';
+
+const AUTOSAVE_DELAY_MS = 800;
+const ESTIMATE_DELAY_MS = 400;
+
+const FORMAT_LABELS: Record<ImportedScript['format'], string> = {
+  text: 'text',
+  fountain: 'Fountain',
+  fdx: 'Final Draft',
+  srt: 'SRT subtitles',
+  vtt: 'WebVTT subtitles',
+  docx: 'Word document'
+};
+
+type ProjectMeta = Pick<Project, 'id' | 'name' | 'createdAt'>;
+
+const imageCache = createBrowserImageCache();
+const prices = loadPriceTable(process.env.VISIONBULK_PRICES);
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
 
 const App: React.FC = () => {
   const [inputText, setInputText] = useState<string>('');
   const [aspectRatio, setAspectRatio] = useState<string>('16:9');
+  const [providerId, setProviderId] = useState<ProviderId>(defaultProviderId);
+  const [source, setSource] = useState<ImportedScript | null>(null);
+  const [stylePreset, setStylePreset] = useState<StylePreset>(DEFAULT_STYLE_PRESET);
+  const [customPresets, setCustomPresets] = useState<StylePreset[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
+  const [analysisFailure, setAnalysisFailure] = useState<AnalysisFailure | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress>({ current: 0, total: 0 });
+  const [analysisStatus, setAnalysisStatus] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [isZipping, setIsZipping] = useState<boolean>(false);
+  const [sceneSeconds, setSceneSeconds] = useState<number>(DEFAULT_EXPORT_OPTIONS.defaultSceneSeconds);
   const [results, setResults] = useState<AnalysisResult | null>(null);
   const [progress, setProgress] = useState<{ current: number; total: number }>({ current: 0, total: 0 });
+  const [queueOptions, setQueueOptions] = useState<QueueOptions>(DEFAULT_QUEUE_OPTIONS);
+  const [queueState, setQueueState] = useState<QueueState>('idle');
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [skipCache, setSkipCache] = useState<boolean>(false);
+  const [qaOptions, setQaOptions] = useState<QaOptions>(DEFAULT_QA_OPTIONS);
+  const [cacheStats, setCacheStats] = useState<ImageCacheStats | null>(null);
+  const [usage, setUsage] = useState<UsageEntry[]>([]);
+  const [budgetCap, setBudgetCap] = useState<number | null>(null);
+  const [translatePrompts, setTranslatePrompts] = useState<boolean>(true);
+  const [outputOptions, setOutputOptions] = useState<OutputOptions>(DEFAULT_OUTPUT_OPTIONS);
+  const [runUsage, setRunUsage] = useState<UsageTotals>(EMPTY_TOTALS);
+  const [budgetReached, setBudgetReached] = useState<boolean>(false);
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
+  const [project, setProject] = useState<ProjectMeta | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isProjectPanelOpen, setIsProjectPanelOpen] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const runRef = useRef<GenerationRun | null>(null);
+  const didLoadRef = useRef<boolean>(false);
 
   const aspectRatios = [
     { label: '16:9 (Landscape)', value: '16:9', icon: 'fa-rectangle-ad' },
@@ -22,114 +89,359 @@ const App: React.FC = () => {
     { label: '3:4 (Portrait)', value: '3:4', icon: 'fa-file' },
   ];
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const currentProject = (): Project | null => project && {
+    ...project,
+    updatedAt: Date.now(),
+    inputText,
+    aspectRatio,
+    providerId,
+    source,
+    stylePreset,
+    customPresets,
+    qa: qaOptions,
+    budgetCap,
+    usage,
+    translatePrompts,
+    output: outputOptions,
+    analysis: results
+  };
+
+  const applyProject = (p: Project) => {
+    setProject({ id: p.id, name: p.name, createdAt: p.createdAt });
+    setInputText(p.inputText);
+    setAspectRatio(p.aspectRatio);
+    setProviderId(isProviderId(p.providerId) ? p.providerId : defaultProviderId);
+    setSource(p.source ?? null);
+    setStylePreset(p.stylePreset ?? DEFAULT_STYLE_PRESET);
+    setCustomPresets(p.customPresets ?? []);
+    setQaOptions(p.qa ?? DEFAULT_QA_OPTIONS);
+    setBudgetCap(p.budgetCap ?? null);
+    setTranslatePrompts(p.translatePrompts ?? true);
+    setOutputOptions(p.output ?? DEFAULT_OUTPUT_OPTIONS);
+    setUsage(p.usage ?? []);
+    // Older projects get character ids and resolved casts on load
+    setResults(p.analysis && resolveAnalysis(p.analysis));
+    setAnalysisFailure(null);
+    setProgress({ current: 0, total: 0 });
+  };
+
+  const refreshProjects = async () => setProjects(await listProjects());
+
+  const refreshCacheStats = () => imageCache.stats().then(setCacheStats).catch(() => setCacheStats(null));
+
+  useEffect(() => { refreshCacheStats(); }, []);
+
+  // Every model call, whatever started it, is charged to the open project
+  useEffect(() => onUsage(entry => setUsage(list => [...list, entry])), []);
+
+  const clearImageCache = async () => {
+    if (!confirm('Clear the image cache? Scenes keep their images; unchanged scenes will be generated again on the next run.')) return;
+    await imageCache.clear();
+    refreshCacheStats();
+  };
+
+  // Reopen the most recently edited project, or start a fresh one
+  useEffect(() => {
+    if (didLoadRef.current) return;
+    didLoadRef.current = true;
+    (async () => {
+      try {
+        const saved = await listProjects();
+        const latest = saved.length > 0 ? await loadProject(saved[0].id) : null;
+        const initial = latest ?? createProject('Untitled project', { providerId: defaultProviderId });
+        if (!latest) await saveProject(initial);
+        applyProject(initial);
+      } catch (err) {
+        console.error('Project storage is unavailable; work will not be saved', err);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    const snapshot = currentProject();
+    if (!snapshot) return;
+    const timer = setTimeout(() => {
+      saveProject(snapshot).catch(err => console.error('Failed to save project', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, inputText, aspectRatio, providerId, source, stylePreset, customPresets, qaOptions, budgetCap, usage, translatePrompts, outputOptions, results]);
+
+  // Cost of generating what's left, kept up to date while the scenes and settings are edited
+  useEffect(() => {
+    if (!results || isGenerating) return;
+    let stale = false;
+    const timer = setTimeout(() => {
+      estimateGenerationCost({ provider: getProvider(providerId), analysis: results, scenes: remainingScenes(results), aspectRatio, style: stylePreset, variations: variationCount, cache: imageCache, forceRegenerate: skipCache, qa: qaOptions, prices })
+        .then(next => { if (!stale) setEstimate(next); })
+        .catch(() => { if (!stale) setEstimate(null); });
+    }, ESTIMATE_DELAY_MS);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [results, isGenerating, providerId, aspectRatio, stylePreset, variationCount, skipCache, qaOptions]);
+
+  const switchTo = async (load: () => Promise<Project | null>) => {
+    const snapshot = currentProject();
+    if (snapshot) await saveProject(snapshot);
+    const next = await load();
+    if (next) applyProject(next);
+    await refreshProjects();
+  };
+
+  const openProjectPanel = async () => {
+    await refreshProjects();
+    setIsProjectPanelOpen(true);
+  };
+
+  const handleNewProject = () => switchTo(async () => {
+    const created = createProject('Untitled project', { providerId, aspectRatio });
+    await saveProject(created);
+    return created;
+  });
+
+  const handleRenameProject = async (id: string) => {
+    const current = projects.find(p => p.id === id);
+    const name = prompt('Project name', current?.name ?? '')?.trim();
+    if (!name) return;
+    if (id === project?.id) {
+      setProject(p => p && { ...p, name });
+    } else {
+      await renameProject(id, name);
+    }
+    await refreshProjects();
+  };
+
+  const handleDuplicateProject = (id: string) => switchTo(() => duplicateProject(id));
+
+  const handleDeleteProject = async (id: string) => {
+    const target = projects.find(p => p.id === id);
+    if (!confirm(`Delete "${target?.name ?? 'this project'}" and all of its images? This cannot be undone.`)) return;
+    // Detach first so a pending autosave can't write the deleted project back
+    if (id === project?.id) setProject(null);
+    await deleteProject(id);
+    if (id === project?.id) {
+      const remaining = await listProjects();
+      const next = remaining.length > 0 ? await loadProject(remaining[0].id) : null;
+      const fallback = next ?? createProject('Untitled project', { providerId: defaultProviderId });
+      if (!next) await saveProject(fallback);
+      applyProject(fallback);
+    }
+    await refreshProjects();
+  };
+
+  const handleExportProject = async (id: string) => {
+    const snapshot = currentProject();
+    if (snapshot && snapshot.id === id) await saveProject(snapshot);
+    const blob = await exportProject(id);
+    const name = projects.find(p => p.id === id)?.name ?? 'project';
+    downloadBlob(blob, `${slugify(name)}.visionbulk.json`);
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      await switchTo(() => importProject(file));
+      setIsProjectPanelOpen(false);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to import project.');
+    }
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const text = event.target?.result as string;
-        setInputText(text);
-      };
-      reader.readAsText(file);
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importScriptFile(file);
+      setInputText(imported.text);
+      setSource(imported.scenes ? imported : null);
+    } catch (err) {
+      console.error(err);
+      alert(`Could not import ${file.name}: ${err instanceof Error ? err.message : 'unsupported file'}`);
     }
   };
 
-  const processBulk = async () => {
+  const updateSceneWith = (id: string, patch: (scene: ScenePrompt) => Partial<ScenePrompt>) => {
+    setResults(prev => prev ? { ...prev, scenes: prev.scenes.map(s => s.id === id ? { ...s, ...patch(s) } : s) } : null);
+  };
+
+  const updateScene = (id: string, patch: Partial<ScenePrompt>) => updateSceneWith(id, () => patch);
+
+  // forceRegenerate bypasses cached images for the run; the new ones still go into the cache
+  const runGeneration = async (analysis: AnalysisResult, scenes: ScenePrompt[], forceRegenerate: boolean = skipCache) => {
+    const generation = createGenerationRun(
+      { provider: getProvider(providerId), analysis, scenes, aspectRatio, style: stylePreset, variations: variationCount, queueOptions, cache: imageCache, forceRegenerate, qa: qaOptions, prices, budgetCap },
+      { onSceneChange: updateSceneWith, onProgress: setProgress, onUsage: setRunUsage, onBudgetReached: () => setBudgetReached(true) }
+    );
+    runRef.current = generation;
+    generation.queue.subscribe(state => {
+      setQueueState(state);
+      if (state !== 'paused') setBudgetReached(false);
+    });
+    setRunUsage(EMPTY_TOTALS);
+
+    setIsGenerating(true);
+    try {
+      await generation.run();
+    } finally {
+      runRef.current = null;
+      setIsGenerating(false);
+      refreshCacheStats();
+    }
+  };
+
+  const analyzeInput = async () => {
     if (!inputText.trim()) return;
+    if (results && !confirm('Re-analyzing replaces the current character sheet and scenes, including your edits. Continue?')) return;
 
     try {
       setIsAnalyzing(true);
-      const analysis = await analyzeScript(inputText);
-      setResults(analysis);
-      setIsAnalyzing(false);
-
-      setIsGenerating(true);
-      const updatedScenes = [...analysis.scenes].map(s => ({ ...s, status: 'pending' as const }));
-      setResults(prev => prev ? { ...prev, scenes: updatedScenes } : null);
-      setProgress({ current: 0, total: updatedScenes.length });
-
-      for (let i = 0; i < updatedScenes.length; i++) {
-        const scene = updatedScenes[i];
-        
-        setResults(prev => {
-          if (!prev) return null;
-          const newScenes = [...prev.scenes];
-          newScenes[i].status = 'generating';
-          return { ...prev, scenes: newScenes };
-        });
-
-        try {
-          // KEY FIX: Only pass the descriptions of characters who are actually in this scene
-          const sceneCharacterContext = analysis.characters
-            .filter(c => scene.presentCharacters.some(name => name.toLowerCase().includes(c.name.toLowerCase()) || c.name.toLowerCase().includes(name.toLowerCase())))
-            .map(c => `${c.name} (${c.description})`)
-            .join('; ');
-
-          const imageUrl = await generateImage(
-            scene.refinedPrompt, 
-            sceneCharacterContext || "No specific character", 
-            analysis.visualStyle, 
-            aspectRatio
-          );
-          
-          setResults(prev => {
-            if (!prev) return null;
-            const newScenes = [...prev.scenes];
-            newScenes[i].status = 'completed';
-            newScenes[i].imageUrl = imageUrl;
-            return { ...prev, scenes: newScenes };
-          });
-        } catch (error) {
-          setResults(prev => {
-            if (!prev) return null;
-            const newScenes = [...prev.scenes];
-            newScenes[i].status = 'error';
-            newScenes[i].error = 'Failed to generate image';
-            return { ...prev, scenes: newScenes };
-          });
-        }
-        
-        setProgress(p => ({ ...p, current: i + 1 }));
-      }
+      setAnalysisFailure(null);
+      setAnalysisStatus(null);
+      setResults(await analyzeStep(getProvider(providerId), inputText, { source, style: stylePreset, translatePrompts, onProgress: setAnalysisProgress, onStatus: setAnalysisStatus }));
     } catch (err) {
       console.error(err);
-      alert('An error occurred during processing. Please check your script and try again.');
+      setAnalysisFailure(explainAnalysisFailure(err, !!source?.scenes));
     } finally {
-      setIsGenerating(false);
       setIsAnalyzing(false);
     }
   };
 
-  const downloadImage = (url: string, index: number) => {
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `scene-${index + 1}.png`;
-    link.click();
+  // Generates every scene that doesn't have a finished image yet, using the reviewed sheet and scenes
+  const processBulk = async () => {
+    if (!results) return;
+    const remaining = remainingScenes(results);
+    if (remaining.length === 0) return;
+    if (budgetCap !== null && estimate && estimate.expected > budgetCap
+      && !confirm(`This run is estimated at ${formatCost(estimate.expected)}, over the budget cap of ${formatCost(budgetCap)}. Generation will pause when it reaches the cap. Start anyway?`)) return;
+    await runGeneration(results, remaining);
+  };
+
+  // Flagged scenes are generated anew (not from the cache) and checked again
+  const regenerateFlagged = async () => {
+    if (!results) return;
+    const flagged = results.scenes.filter(s => isFlagged(selectedReport(s), qaOptions.threshold));
+    if (flagged.length === 0) return;
+    await runGeneration(results, flagged, true);
+  };
+
+  const retryFailed = async () => {
+    if (!results) return;
+    const failed = results.scenes.filter(s => s.status === 'error');
+    if (failed.length === 0) return;
+    await runGeneration(results, failed);
+  };
+
+  const regenerateScene = async (id: string) => {
+    const scene = results?.scenes.find(s => s.id === id);
+    if (!results || !scene) return;
+    // Regenerating a scene that has an image asks for a new one, not the cached copy of the old one
+    await runGeneration(results, [scene], skipCache || !!scene.imageUrl);
+  };
+
+  // Edits and on-demand checks are paid calls too. During a run they count toward the run's spending
+  // (it tallies every call made while it goes); otherwise they are held to the cap against the project total.
+  const confirmWithinBudget = (cost: number, action: string): boolean => {
+    if (budgetCap === null) return true;
+    const spent = isGenerating ? runUsage.cost : sumUsage(usage, prices).cost;
+    if (spent + cost <= budgetCap) return true;
+    return confirm(`This ${action} is estimated at ${formatCost(cost)}. With the ${formatCost(spent)} already spent${isGenerating ? ' in this run' : ''}, that is over the budget cap of ${formatCost(budgetCap)}. Go ahead anyway?`);
+  };
+
+  // The edited image becomes a new, selected take; a failed edit leaves the current one in place
+  const editSceneImageWith = async (id: string, instruction: string, mask: string | null): Promise<boolean> => {
+    const scene = results?.scenes.find(s => s.id === id);
+    if (!results || !scene?.imageUrl) return false;
+    const provider = getProvider(providerId);
+    if (!confirmWithinBudget(estimateEditCost(provider, results, scene, instruction, !!mask, prices), 'edit')) return false;
+    updateScene(id, { status: 'generating', error: undefined });
+    try {
+      const take = await editSceneImage(provider, results, scene, instruction, { mask, aspectRatio });
+      updateSceneWith(id, s => ({ ...addTake(s, take, true), status: 'completed', error: undefined }));
+      return true;
+    } catch (err) {
+      console.error(err);
+      updateScene(id, { status: 'completed', error: `Edit failed: ${describeError(err)}` });
+      return false;
+    }
+  };
+
+  // Attaches the result to the selected take; returns false when the check itself failed
+  const checkScene = async (id: string): Promise<boolean> => {
+    const scene = results?.scenes.find(s => s.id === id);
+    if (!results || !scene?.imageUrl) return false;
+    const provider = getProvider(providerId);
+    if (!confirmWithinBudget(estimateCheckCost(provider, results, scene, prices), 'consistency check')) return false;
+    try {
+      const report = await checkSceneImage(provider, results, scene);
+      updateSceneWith(id, s => ({ takes: s.takes?.map(t => t.id === s.selectedTakeId ? { ...t, qa: report } : t) }));
+      return true;
+    } catch (err) {
+      console.error(err);
+      updateScene(id, { error: `Consistency check failed: ${describeError(err)}` });
+      return false;
+    }
+  };
+
+  // Edits to a custom preset are saved back to the project's preset library
+  const changeStylePreset = (preset: StylePreset) => {
+    setStylePreset(preset);
+    setCustomPresets(list => list.map(p => p.id === preset.id ? preset : p));
+  };
+
+  const saveStylePresetAs = (name: string) => {
+    const saved: StylePreset = { ...stylePreset, id: createId('style'), name, builtIn: false };
+    setCustomPresets(list => [...list, saved]);
+    setStylePreset(saved);
+  };
+
+  const deleteCustomPreset = (id: string) => {
+    setCustomPresets(list => list.filter(p => p.id !== id));
+    if (stylePreset.id === id) setStylePreset(DEFAULT_STYLE_PRESET);
+  };
+
+  const editScenes = (edit: (scenes: ScenePrompt[]) => ScenePrompt[]) => {
+    setResults(prev => prev ? { ...prev, scenes: edit(prev.scenes) } : null);
+  };
+
+  const editAnalysis = (edit: (analysis: AnalysisResult) => AnalysisResult) => {
+    setResults(prev => prev ? edit(prev) : null);
+  };
+
+  // A new name or alias may match mentions that matched nothing before
+  const editCharacters = (edit: (analysis: AnalysisResult) => AnalysisResult) => editAnalysis(a => resolveAnalysis(edit(a)));
+
+  const exportOptions = (): ExportOptions => ({
+    ...DEFAULT_EXPORT_OPTIONS,
+    projectName: project?.name ?? 'VisionBulk Storyboard',
+    aspectRatio,
+    defaultSceneSeconds: sceneSeconds,
+    qaThreshold: qaOptions.threshold
+  });
+
+  const downloadImage = async (scene: ScenePrompt, index: number) => {
+    if (!scene.imageUrl) return;
+    try {
+      const imageUrl = await processImage(scene.imageUrl, { index: index + 1, originalText: scene.originalText }, aspectRatio, outputOptions);
+      downloadBlob(dataUrlToBlob(imageUrl), sceneFileName({ ...scene, imageUrl }, index));
+    } catch (err) {
+      console.error('Failed to process image', err);
+      alert('Could not process the image for download. See the console for details.');
+    }
   };
 
   const downloadAllAsZip = async () => {
     if (!results) return;
-    setIsZipping(true);
-    const zip = new JSZip();
-    const completedScenes = results.scenes.filter(s => s.imageUrl && s.status === 'completed');
-    if (completedScenes.length === 0) {
+    if (!results.scenes.some(isExportable)) {
       alert("No images ready to download yet.");
-      setIsZipping(false);
       return;
     }
-    for (let i = 0; i < completedScenes.length; i++) {
-      const scene = completedScenes[i];
-      if (scene.imageUrl) {
-        const base64Data = scene.imageUrl.split(',')[1];
-        zip.file(`scene-${i + 1}.png`, base64Data, { base64: true });
-      }
-    }
+    setIsZipping(true);
     try {
-      const content = await zip.generateAsync({ type: "blob" });
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(content);
-      link.download = "visionbulk-scenes.zip";
-      link.click();
+      const options = exportOptions();
+      // Processed copies go into the ZIP, so the manifests and timelines name the converted files
+      const storyboard = await processStoryboard(results, aspectRatio, outputOptions);
+      downloadBlob(await buildZip(storyboard, options), `${slugify(options.projectName)}.zip`);
     } catch (err) {
       console.error("Failed to create ZIP", err);
     } finally {
@@ -137,7 +449,60 @@ const App: React.FC = () => {
     }
   };
 
-  const hasAnyCompleted = results?.scenes.some(s => s.imageUrl && s.status === 'completed');
+  const exportAs = async (kind: ExportKind) => {
+    if (!results) return;
+    const options = exportOptions();
+    const base = slugify(options.projectName);
+    try {
+      // Manifests and timelines name the image files, so they follow the output settings like the downloads do
+      const namesImages = kind === 'manifest-json' || kind === 'manifest-csv' || kind === 'edl' || kind === 'fcpxml';
+      const manifest = buildManifest(namesImages ? await processStoryboard(results, aspectRatio, outputOptions) : results, options);
+      switch (kind) {
+        case 'pdf':
+          downloadBlob(buildStoryboardPdf(results, options).output('blob'), `${base}-storyboard.pdf`);
+          break;
+        case 'manifest-json':
+          downloadBlob(new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }), `${base}-manifest.json`);
+          break;
+        case 'manifest-csv':
+          downloadBlob(new Blob([manifestToCsv(manifest)], { type: 'text/csv' }), `${base}-manifest.csv`);
+          break;
+        case 'edl':
+          downloadBlob(new Blob([buildEdl(manifest, options.fps)], { type: 'text/plain' }), `${base}.edl`);
+          break;
+        case 'fcpxml':
+          downloadBlob(new Blob([buildFcpxml(manifest, options.fps)], { type: 'application/xml' }), `${base}.fcpxml`);
+          break;
+        case 'captions-srt':
+          downloadBlob(new Blob([buildCaptions(manifest, 'srt')], { type: 'application/x-subrip' }), `${base}.srt`);
+          break;
+        case 'captions-vtt':
+          downloadBlob(new Blob([buildCaptions(manifest, 'vtt')], { type: 'text/vtt' }), `${base}.vtt`);
+          break;
+        case 'qa-report':
+          downloadBlob(new Blob([qaReportToMarkdown(buildQaReport(results, options.qaThreshold), options.projectName)], { type: 'text/markdown' }), `${base}-qa-report.md`);
+          break;
+      }
+    } catch (err) {
+      console.error(`Failed to export ${kind}`, err);
+      alert('Export failed. See the console for details.');
+    }
+  };
+
+  const hasAnyCompleted = results?.scenes.some(isExportable);
+  const failedCount = results?.scenes.filter(s => s.status === 'error').length ?? 0;
+  const flaggedCount = results?.scenes.filter(s => s.status === 'completed' && isFlagged(selectedReport(s), qaOptions.threshold)).length ?? 0;
+  const remainingCount = results?.scenes.filter(s => s.status !== 'completed').length ?? 0;
+  const isBusy = isAnalyzing || isGenerating;
+  const projectUsage = sumUsage(usage, prices);
+  const inputLanguage = useMemo(() => detectLanguage(inputText), [inputText]);
+
+  const changeBudgetCap = (value: string) => {
+    const cap = value.trim() === '' ? null : Math.max(0, Number(value) || 0);
+    setBudgetCap(cap);
+    // A running generation picks the new cap up at its next call; resume it to carry on
+    runRef.current?.setBudgetCap(cap);
+  };
 
   return (
     <div className="min-h-screen bg-[#0a0a0a] pb-20 text-zinc-300">
@@ -149,8 +514,17 @@ const App: React.FC = () => {
           <h1 className="text-xl font-bold tracking-tight bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400">
             VisionBulk AI
           </h1>
+          {project && (
+            <span className="hidden md:inline text-sm text-zinc-500 ml-3 truncate max-w-[240px]">/ {project.name}</span>
+          )}
         </div>
         <div className="flex items-center gap-4">
+          <button
+            onClick={openProjectPanel}
+            className="flex items-center gap-2 px-4 py-2 rounded-full border border-white/20 hover:bg-white/5 transition-all text-sm font-medium"
+          >
+            <i className="fas fa-folder-open"></i> Projects
+          </button>
           <button 
             onClick={() => fileInputRef.current?.click()}
             className="hidden md:flex items-center gap-2 px-4 py-2 rounded-full border border-white/20 hover:bg-white/5 transition-all text-sm font-medium"
@@ -161,7 +535,7 @@ const App: React.FC = () => {
             type="file" 
             ref={fileInputRef} 
             onChange={handleFileUpload} 
-            accept=".txt" 
+            accept={SCRIPT_FILE_ACCEPT} 
             className="hidden" 
           />
         </div>
@@ -178,10 +552,44 @@ const App: React.FC = () => {
                 </div>
                 <textarea
                   value={inputText}
-                  onChange={(e) => setInputText(e.target.value)}
-                  placeholder="Paste your script here. For example: 'Ayesha is in the park. Later, Bilal enters and they talk. Finally, Ayesha walks away alone.'"
+                  onChange={(e) => {
+                    setInputText(e.target.value);
+                    // Hand-edited text no longer matches the imported scene structure
+                    setSource(null);
+                  }}
+                  placeholder="Paste your script here, in English, Urdu or a mix of both. For example: 'Ayesha is in the park. Later, Bilal enters and they talk. Finally, Ayesha walks away alone.'"
+                  dir={inputText.trim() ? inputLanguage.direction : 'ltr'}
+                  lang={inputText.trim() && inputLanguage.code !== 'und' ? inputLanguage.code : undefined}
                   className="w-full h-64 bg-zinc-900/50 border border-white/10 rounded-2xl p-5 text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all resize-none shadow-inner"
                 />
+                {inputText.trim() && !isEnglish(inputLanguage) && (
+                  <div className="flex items-center justify-between gap-3 text-xs text-zinc-500">
+                    <span>
+                      <i className="fas fa-language mr-1"></i>
+                      {describeLanguage(inputLanguage)}{inputLanguage.direction === 'rtl' ? ' · right-to-left' : ''}
+                    </span>
+                    <label className="flex items-center gap-2" title="Scene text stays as written; prompts, descriptions and the visual style are written in English for the image model">
+                      <input
+                        type="checkbox"
+                        checked={translatePrompts}
+                        disabled={isBusy}
+                        onChange={(e) => setTranslatePrompts(e.target.checked)}
+                      />
+                      English prompts
+                    </label>
+                  </div>
+                )}
+                {source?.scenes && (
+                  <div className="flex items-center justify-between text-xs text-zinc-500">
+                    <span>
+                      <i className="fas fa-file-lines mr-1"></i>
+                      Imported {FORMAT_LABELS[source.format]} · {source.scenes.length} scenes kept as written
+                    </span>
+                    <button onClick={() => setSource(null)} className="hover:text-zinc-300 transition-colors" title="Let the AI split scenes instead">
+                      <i className="fas fa-xmark"></i>
+                    </button>
+                  </div>
+                )}
               </div>
 
               <div className="space-y-3">
@@ -204,43 +612,279 @@ const App: React.FC = () => {
                 </div>
               </div>
 
-              <button
-                onClick={processBulk}
-                disabled={isAnalyzing || isGenerating || !inputText.trim()}
-                className={`w-full py-4 rounded-2xl font-bold text-lg flex items-center justify-center gap-3 transition-all ${
-                  isAnalyzing || isGenerating || !inputText.trim()
-                    ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
-                    : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:scale-[1.02] active:scale-[0.98] shadow-lg shadow-blue-500/20'
-                }`}
-              >
-                {isAnalyzing ? (
-                  <>
-                    <i className="fas fa-spinner fa-spin"></i> Analyzing Script...
-                  </>
-                ) : isGenerating ? (
-                  <>
-                    <i className="fas fa-circle-notch fa-spin"></i> Generating ({progress.current}/{progress.total})
-                  </>
-                ) : (
-                  <>
-                    <i className="fas fa-magic"></i> Generate Bulk Images
-                  </>
-                )}
-              </button>
-            </div>
+              <StylePresetPanel
+                preset={stylePreset}
+                customPresets={customPresets}
+                disabled={isBusy}
+                onChange={changeStylePreset}
+                onSaveAs={saveStylePresetAs}
+                onDeleteCustom={deleteCustomPreset}
+              />
 
-            {results && (
-              <div className="glass-morphism p-6 rounded-3xl space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500 border-white/5 shadow-xl">
-                <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Character Sheet (Consistency)</h3>
-                <div className="space-y-3">
-                  {results.characters.map((char, i) => (
-                    <div key={i} className="p-4 bg-white/5 border border-white/5 rounded-2xl hover:bg-white/10 transition-colors">
-                      <p className="font-bold text-blue-400">{char.name}</p>
-                      <p className="text-xs text-zinc-400 mt-1 leading-relaxed">{char.description}</p>
-                    </div>
+              <OutputPresetPanel
+                options={outputOptions}
+                aspectRatio={aspectRatio}
+                onChange={setOutputOptions}
+              />
+
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-zinc-400 uppercase tracking-wider block">Engine</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {Object.values(providers).map((provider) => (
+                    <button
+                      key={provider.id}
+                      onClick={() => setProviderId(provider.id)}
+                      disabled={isAnalyzing || isGenerating}
+                      className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-xs font-medium transition-all ${
+                        providerId === provider.id
+                          ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-500/20'
+                          : 'bg-zinc-900/50 border-white/5 text-zinc-400 hover:border-white/10'
+                      }`}
+                    >
+                      <i className={`fas ${provider.id === 'mock' ? 'fa-plug-circle-xmark' : 'fa-cloud'}`}></i>
+                      {provider.label}
+                    </button>
                   ))}
                 </div>
               </div>
+
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-zinc-400 uppercase tracking-wider block">Queue</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="col-span-2 flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-white/5 bg-zinc-900/50 text-xs text-zinc-400">
+                    Variations per scene
+                    <input
+                      type="number"
+                      min={1}
+                      max={4}
+                      value={variationCount}
+                      disabled={isGenerating}
+                      onChange={(e) => setVariationCount(Math.min(4, Math.max(1, Number(e.target.value) || 1)))}
+                      className="w-14 bg-transparent text-right text-zinc-200 focus:outline-none"
+                    />
+                  </label>
+                  <label className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-white/5 bg-zinc-900/50 text-xs text-zinc-400">
+                    Parallel jobs
+                    <input
+                      type="number"
+                      min={1}
+                      max={8}
+                      value={queueOptions.concurrency}
+                      disabled={isGenerating}
+                      onChange={(e) => setQueueOptions(o => ({ ...o, concurrency: Math.max(1, Number(e.target.value) || 1) }))}
+                      className="w-14 bg-transparent text-right text-zinc-200 focus:outline-none"
+                    />
+                  </label>
+                  <label className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-white/5 bg-zinc-900/50 text-xs text-zinc-400">
+                    Requests / min
+                    <input
+                      type="number"
+                      min={1}
+                      max={600}
+                      value={queueOptions.requestsPerMinute}
+                      disabled={isGenerating}
+                      onChange={(e) => setQueueOptions(o => ({ ...o, requestsPerMinute: Math.max(1, Number(e.target.value) || 1) }))}
+                      className="w-14 bg-transparent text-right text-zinc-200 focus:outline-none"
+                    />
+                  </label>
+                  <div className="col-span-2 flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-white/5 bg-zinc-900/50 text-xs text-zinc-400">
+                    <label className="flex items-center gap-2" title="Generate every scene anew instead of reusing cached images">
+                      <input
+                        type="checkbox"
+                        checked={skipCache}
+                        disabled={isGenerating}
+                        onChange={(e) => setSkipCache(e.target.checked)}
+                      />
+                      Force regenerate
+                    </label>
+                    {cacheStats && (
+                      <span className="flex items-center gap-2 text-[10px] text-zinc-500">
+                        Cache: {cacheStats.entries} {cacheStats.entries === 1 ? 'image' : 'images'}, {formatMegabytes(cacheStats.bytes)} of {formatMegabytes(cacheStats.maxBytes)}
+                        <button
+                          onClick={clearImageCache}
+                          disabled={isGenerating || cacheStats.entries === 0}
+                          className="text-zinc-400 hover:text-red-400 disabled:opacity-40"
+                          title="Clear image cache"
+                        >
+                          <i className="fas fa-trash text-[10px]"></i>
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  <div className="col-span-2 flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-white/5 bg-zinc-900/50 text-xs text-zinc-400">
+                    <label className="flex items-center gap-2" title="Check every new image against the scene and character sheet with a vision model">
+                      <input
+                        type="checkbox"
+                        checked={qaOptions.enabled}
+                        disabled={isGenerating}
+                        onChange={(e) => setQaOptions(o => ({ ...o, enabled: e.target.checked }))}
+                      />
+                      Consistency check
+                    </label>
+                    {qaOptions.enabled && (
+                      <span className="flex items-center gap-3">
+                        <label className="flex items-center gap-1" title="Images scoring below this are regenerated, then flagged">
+                          Min score
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={qaOptions.threshold}
+                            disabled={isGenerating}
+                            onChange={(e) => setQaOptions(o => ({ ...o, threshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))}
+                            className="w-10 bg-transparent text-right text-zinc-200 focus:outline-none"
+                          />
+                        </label>
+                        <label className="flex items-center gap-1" title="Extra attempts for an image below the minimum score">
+                          Retries
+                          <input
+                            type="number"
+                            min={0}
+                            max={5}
+                            value={qaOptions.maxRegenerations}
+                            disabled={isGenerating}
+                            onChange={(e) => setQaOptions(o => ({ ...o, maxRegenerations: Math.min(5, Math.max(0, Number(e.target.value) || 0)) }))}
+                            className="w-8 bg-transparent text-right text-zinc-200 focus:outline-none"
+                          />
+                        </label>
+                      </span>
+                    )}
+                  </div>
+                  <div className="col-span-2 flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-white/5 bg-zinc-900/50 text-xs text-zinc-400">
+                    <label className="flex items-center gap-2" title="Generation pauses before a request that would take the run over this amount. Leave empty for no cap.">
+                      Budget cap ($)
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={budgetCap ?? ''}
+                        placeholder="None"
+                        onChange={(e) => changeBudgetCap(e.target.value)}
+                        className="w-16 bg-transparent text-right text-zinc-200 placeholder-zinc-600 focus:outline-none"
+                      />
+                    </label>
+                    <span className="text-[10px] text-zinc-500" title={`${projectUsage.calls} model calls, ${formatTokens(projectUsage.inputTokens)} tokens in, ${formatTokens(projectUsage.outputTokens)} out`}>
+                      Project: {formatCost(projectUsage.cost)}, {projectUsage.images} {projectUsage.images === 1 ? 'image' : 'images'}
+                    </span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <button
+                  onClick={analyzeInput}
+                  disabled={isBusy || !inputText.trim()}
+                  className={`w-full py-4 rounded-2xl font-bold text-lg flex items-center justify-center gap-3 transition-all ${
+                    isBusy || !inputText.trim()
+                      ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
+                      : results
+                        ? 'bg-zinc-900/50 border border-white/10 text-zinc-300 hover:border-white/20'
+                        : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:scale-[1.02] active:scale-[0.98] shadow-lg shadow-blue-500/20'
+                  }`}
+                >
+                  {isAnalyzing ? (
+                    <>
+                      <i className="fas fa-spinner fa-spin"></i>
+                      {analysisProgress.total > 1
+                        ? `Analyzing Part ${Math.min(analysisProgress.current + 1, analysisProgress.total)} of ${analysisProgress.total}...`
+                        : 'Analyzing Script...'}
+                    </>
+                  ) : (
+                    <>
+                      <i className="fas fa-wand-magic-sparkles"></i> {results ? 'Re-analyze Script' : 'Analyze Script'}
+                    </>
+                  )}
+                </button>
+
+                {isAnalyzing && analysisProgress.total > 1 && (
+                  <div className="flex gap-1">
+                    {Array.from({ length: analysisProgress.total }, (_, i) => (
+                      <div
+                        key={i}
+                        className={`h-1.5 flex-1 rounded-full transition-colors ${
+                          i < analysisProgress.current ? 'bg-blue-500' : i === analysisProgress.current ? 'bg-blue-500/40 animate-pulse' : 'bg-zinc-800'
+                        }`}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                {isAnalyzing && analysisStatus && (
+                  <p className="text-[11px] text-zinc-500">{analysisStatus}</p>
+                )}
+
+                {analysisFailure && !isAnalyzing && (
+                  <AnalysisErrorNotice
+                    failure={analysisFailure}
+                    onRetry={analyzeInput}
+                    onUsePartial={() => {
+                      if (results && !confirm('Using the partial result replaces the current character sheet and scenes. Continue?')) return;
+                      if (analysisFailure.partial) setResults(finalizeAnalysis(analysisFailure.partial, source?.scenes));
+                      setAnalysisFailure(null);
+                    }}
+                    onDismiss={() => setAnalysisFailure(null)}
+                  />
+                )}
+
+                {results && (
+                  <button
+                    onClick={processBulk}
+                    disabled={isBusy || remainingCount === 0}
+                    className={`w-full py-4 rounded-2xl font-bold text-lg flex items-center justify-center gap-3 transition-all ${
+                      isBusy || remainingCount === 0
+                        ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
+                        : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:scale-[1.02] active:scale-[0.98] shadow-lg shadow-blue-500/20'
+                    }`}
+                  >
+                    {isGenerating ? (
+                      <>
+                        <i className={`fas ${queueState === 'paused' ? 'fa-pause' : 'fa-circle-notch fa-spin'}`}></i>
+                        {queueState === 'paused' ? 'Paused' : queueState === 'cancelled' ? 'Cancelling' : 'Generating'} ({progress.current}/{progress.total})
+                      </>
+                    ) : (
+                      <>
+                        <i className="fas fa-magic"></i> {hasAnyCompleted ? 'Resume' : 'Generate'} {remainingCount} {remainingCount === 1 ? 'Image' : 'Images'}
+                      </>
+                    )}
+                  </button>
+                )}
+                {results && !isBusy && remainingCount > 0 && estimate && (
+                  <p
+                    className={`text-xs text-center ${budgetCap !== null && estimate.expected > budgetCap ? 'text-amber-400' : 'text-zinc-400'}`}
+                    title="From the prompt lengths and the price table; QA retries can add up to the higher figure"
+                  >
+                    Estimated cost: {formatCost(estimate.expected)}{estimate.max > estimate.expected ? ` (up to ${formatCost(estimate.max)} with QA retries)` : ''}
+                    {' '}for {estimate.images} {estimate.images === 1 ? 'image' : 'images'}{estimate.cached > 0 ? `, ${estimate.cached} cached` : ''}
+                  </p>
+                )}
+                {results && !isBusy && remainingCount > 0 && (
+                  <p className="text-xs text-zinc-500 text-center">Review the character sheet and scenes before generating. Edits are used as-is.</p>
+                )}
+              </div>
+            </div>
+
+            {results && (
+              <CharacterSheet
+                characters={results.characters}
+                scenes={results.scenes}
+                editable={!isBusy}
+                onAddReference={(index, imageUrl) => editAnalysis(a => addReferenceImage(a, index, imageUrl))}
+                onRemoveReference={(index, referenceIndex) => editAnalysis(a => removeReferenceImage(a, index, referenceIndex))}
+                onUpdate={(index, patch) => editCharacters(a => updateCharacter(a, index, patch))}
+                onAdd={() => editAnalysis(a => ({ ...a, characters: [...a.characters, { id: createId('char'), name: '', description: '' }] }))}
+                onRemove={(index) => editAnalysis(a => removeCharacter(a, index))}
+              />
+            )}
+
+            {results && (
+              <LocationSheet
+                locations={results.locations ?? []}
+                scenes={results.scenes}
+                editable={!isBusy}
+                onUpdate={(index, patch) => editAnalysis(a => updateLocation(a, index, patch))}
+                onAdd={() => editAnalysis(a => ({ ...a, locations: [...(a.locations ?? []), { id: createId('loc'), name: '', description: '' }] }))}
+                onRemove={(index) => editAnalysis(a => removeLocation(a, index))}
+              />
             )}
           </div>
 
@@ -258,6 +902,24 @@ const App: React.FC = () => {
                 <div className="flex items-center justify-between">
                   <h2 className="text-2xl font-bold tracking-tight">Storyboards</h2>
                   <div className="flex items-center gap-4">
+                    {!isGenerating && flaggedCount > 0 && (
+                      <button
+                        onClick={regenerateFlagged}
+                        disabled={isBusy}
+                        className="flex items-center gap-2 px-4 py-2 bg-amber-500/20 border border-amber-500/30 text-amber-300 rounded-full text-sm font-bold hover:bg-amber-500/30 transition-all disabled:opacity-50"
+                        title={`Scenes whose consistency score is below ${qaOptions.threshold}`}
+                      >
+                        <i className="fas fa-triangle-exclamation"></i> Regenerate Flagged ({flaggedCount})
+                      </button>
+                    )}
+                    {!isGenerating && failedCount > 0 && (
+                      <button
+                        onClick={retryFailed}
+                        className="flex items-center gap-2 px-4 py-2 bg-red-600/20 border border-red-500/30 text-red-400 rounded-full text-sm font-bold hover:bg-red-600/30 transition-all"
+                      >
+                        <i className="fas fa-rotate-right"></i> Retry Failed ({failedCount})
+                      </button>
+                    )}
                     {hasAnyCompleted && (
                       <button 
                         onClick={downloadAllAsZip}
@@ -268,6 +930,14 @@ const App: React.FC = () => {
                         Download ZIP
                       </button>
                     )}
+                    {results && results.scenes.length > 0 && (
+                      <ExportMenu
+                        disabled={isZipping}
+                        sceneSeconds={sceneSeconds}
+                        onSceneSecondsChange={setSceneSeconds}
+                        onExport={exportAs}
+                      />
+                    )}
                     {isGenerating && (
                       <div className="flex items-center gap-3">
                         <div className="h-2 w-32 md:w-48 bg-zinc-800 rounded-full overflow-hidden">
@@ -279,82 +949,112 @@ const App: React.FC = () => {
                         <span className="text-sm text-zinc-400 font-mono">
                           {Math.round((progress.current / progress.total) * 100)}%
                         </span>
+                        <span
+                          className={`text-xs font-mono ${budgetReached ? 'text-amber-400' : 'text-zinc-500'}`}
+                          title={`This run: ${runUsage.calls} model calls, ${formatTokens(runUsage.inputTokens)} tokens in, ${formatTokens(runUsage.outputTokens)} out. Project total: ${formatCost(projectUsage.cost)}`}
+                        >
+                          {formatCost(runUsage.cost)}{budgetCap !== null ? ` / ${formatCost(budgetCap)}` : ''} · {formatCost(projectUsage.cost)} total
+                        </span>
+                        {queueState === 'paused' ? (
+                          <button
+                            onClick={() => runRef.current?.queue.resume()}
+                            className="w-8 h-8 rounded-full border border-white/10 hover:bg-white/10 transition-all"
+                            title="Resume"
+                          >
+                            <i className="fas fa-play text-xs"></i>
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => runRef.current?.queue.pause()}
+                            disabled={queueState === 'cancelled'}
+                            className="w-8 h-8 rounded-full border border-white/10 hover:bg-white/10 transition-all disabled:opacity-50"
+                            title="Pause"
+                          >
+                            <i className="fas fa-pause text-xs"></i>
+                          </button>
+                        )}
+                        <button
+                          onClick={() => runRef.current?.queue.cancel()}
+                          disabled={queueState === 'cancelled'}
+                          className="w-8 h-8 rounded-full border border-red-500/30 text-red-400 hover:bg-red-600/20 transition-all disabled:opacity-50"
+                          title="Cancel remaining scenes"
+                        >
+                          <i className="fas fa-stop text-xs"></i>
+                        </button>
                       </div>
                     )}
                   </div>
                 </div>
 
+                {isGenerating && budgetReached && queueState === 'paused' && (
+                  <div className="flex items-center gap-3 p-4 rounded-2xl border border-amber-500/30 bg-amber-500/10 text-sm text-amber-200">
+                    <i className="fas fa-coins text-amber-400"></i>
+                    <p className="flex-1">
+                      Paused at the budget cap: this run has spent {formatCost(runUsage.cost)}{budgetCap !== null ? ` of ${formatCost(budgetCap)}` : ''} and the next request would go over it.
+                      Raise or clear the cap in the queue settings and resume, or cancel the remaining scenes.
+                    </p>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   {results?.scenes.map((scene, idx) => (
-                    <div 
-                      key={scene.id} 
-                      className="group relative glass-morphism rounded-3xl overflow-hidden border border-white/10 transition-all hover:border-blue-500/50 hover:shadow-2xl hover:shadow-blue-500/5"
-                    >
-                      <div className={`relative bg-zinc-950 flex items-center justify-center overflow-hidden`} style={{ aspectRatio: aspectRatio.replace(':', '/') }}>
-                        {scene.imageUrl ? (
-                          <>
-                            <img 
-                              src={scene.imageUrl} 
-                              alt={`Scene ${idx + 1}`} 
-                              className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
-                            />
-                            <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
-                              <button 
-                                onClick={() => downloadImage(scene.imageUrl!, idx)}
-                                className="w-12 h-12 bg-white text-black rounded-full flex items-center justify-center hover:scale-110 transition-transform shadow-xl"
-                                title="Download"
-                              >
-                                <i className="fas fa-download"></i>
-                              </button>
-                            </div>
-                          </>
-                        ) : scene.status === 'generating' ? (
-                          <div className="flex flex-col items-center gap-4">
-                            <div className="w-10 h-10 border-4 border-blue-500/20 border-t-blue-500 rounded-full animate-spin"></div>
-                            <span className="text-xs font-semibold text-blue-400 uppercase tracking-widest animate-pulse">Creating Visuals...</span>
-                          </div>
-                        ) : scene.status === 'error' ? (
-                          <div className="text-center px-6">
-                            <i className="fas fa-exclamation-triangle text-red-500 mb-2"></i>
-                            <p className="text-xs text-red-400">{scene.error || 'Generation Failed'}</p>
-                          </div>
-                        ) : (
-                          <i className="fas fa-hourglass-half text-zinc-800 text-3xl"></i>
-                        )}
-                        <div className="absolute top-4 left-4 flex gap-2">
-                          <div className="bg-black/60 backdrop-blur-md px-3 py-1 rounded-full border border-white/10">
-                            <span className="text-[10px] font-bold text-white uppercase tracking-wider">SCENE {idx + 1}</span>
-                          </div>
-                        </div>
-                        {scene.presentCharacters.length > 0 && (
-                          <div className="absolute bottom-4 left-4 right-4 flex flex-wrap gap-1 opacity-80 group-hover:opacity-100 transition-opacity">
-                            {scene.presentCharacters.map((c, ci) => (
-                              <span key={ci} className="text-[9px] bg-blue-600/80 backdrop-blur px-2 py-0.5 rounded-md text-white border border-white/10 font-medium">
-                                {c}
-                              </span>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                      <div className="p-5 space-y-3">
-                        <div className="space-y-1">
-                          <p className="text-[9px] font-bold text-zinc-500 uppercase tracking-[0.2em]">Source Segment</p>
-                          <p className="text-sm text-zinc-300 line-clamp-2 leading-relaxed italic">"{scene.originalText}"</p>
-                        </div>
-                        <div className="pt-2 border-t border-white/5">
-                          <p className="text-[9px] font-bold text-blue-400 uppercase tracking-[0.2em]">AI Visual Prompt</p>
-                          <p className="text-xs text-zinc-500 line-clamp-3 mt-1 leading-normal">{scene.refinedPrompt}</p>
-                        </div>
-                      </div>
-                    </div>
+                    <SceneCard
+                      key={scene.id}
+                      scene={scene}
+                      index={idx}
+                      total={results.scenes.length}
+                      aspectRatio={aspectRatio}
+                      characters={results.characters}
+                      locations={results.locations ?? []}
+                      language={results.language}
+                      editable={!isBusy}
+                      onChange={(patch) => updateScene(scene.id, patch)}
+                      onDelete={() => editScenes(scenes => removeScene(scenes, idx))}
+                      onMove={(offset) => editScenes(scenes => moveScene(scenes, idx, offset))}
+                      onSplit={() => editScenes(scenes => splitScene(scenes, idx))}
+                      onMergeNext={() => editScenes(scenes => mergeWithNext(scenes, idx))}
+                      onInsertAfter={() => editScenes(scenes => insertScene(scenes, idx + 1))}
+                      onRegenerate={() => regenerateScene(scene.id)}
+                      onEditImage={(instruction, mask) => editSceneImageWith(scene.id, instruction, mask)}
+                      onCheck={() => checkScene(scene.id)}
+                      qaThreshold={qaOptions.threshold}
+                      onSelectTake={(takeId) => updateSceneWith(scene.id, s => selectTake(s, takeId))}
+                      onRemoveTake={(takeId) => updateSceneWith(scene.id, s => removeTake(s, takeId))}
+                      onLockLook={(characterId) => editAnalysis(a => scene.imageUrl ? lockCharacterLook(a, characterId, scene.imageUrl) : a)}
+                      onDownload={() => downloadImage(scene, idx)}
+                    />
                   ))}
                 </div>
+                {results && results.scenes.length === 0 && !isBusy && (
+                  <button
+                    onClick={() => editScenes(scenes => [...scenes, createScene()])}
+                    className="w-full py-6 border-2 border-dashed border-white/10 rounded-3xl text-sm text-zinc-500 hover:text-zinc-300 hover:border-white/20 transition-all"
+                  >
+                    <i className="fas fa-plus mr-2"></i> Add Scene
+                  </button>
+                )}
               </div>
             )}
           </div>
         </div>
       </main>
 
+      {isProjectPanelOpen && (
+        <ProjectPanel
+          projects={projects}
+          currentId={project?.id ?? null}
+          disabled={isBusy}
+          onClose={() => setIsProjectPanelOpen(false)}
+          onNew={() => { handleNewProject(); setIsProjectPanelOpen(false); }}
+          onOpen={(id) => { switchTo(() => loadProject(id)); setIsProjectPanelOpen(false); }}
+          onRename={handleRenameProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+          onExport={handleExportProject}
+          onImport={handleImportProject}
+        />
+      )}
+
       {hasAnyCompleted && (
         <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50">
           <button 
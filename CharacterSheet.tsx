@@ -0,0 +1,165 @@
+import React from 'react';
+import { readImageFile } from './imageUtils';
+import { MAX_REFERENCE_IMAGES } from './sceneEditing';
+import { CharacterInfo, ScenePrompt } from './types';
+
+interface CharacterSheetProps {
+  characters: CharacterInfo[];
+  scenes: ScenePrompt[];
+  editable: boolean;
+  onUpdate: (index: number, patch: Partial<CharacterInfo>) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+  onAddReference: (index: number, imageUrl: string) => void;
+  onRemoveReference: (index: number, referenceIndex: number) => void;
+}
+
+interface ReferenceStripProps {
+  character: CharacterInfo;
+  scenes: ScenePrompt[];
+  editable: boolean;
+  onAdd: (imageUrl: string) => void;
+  onRemove: (referenceIndex: number) => void;
+}
+
+const ReferenceStrip: React.FC<ReferenceStripProps> = ({ character, scenes, editable, onAdd, onRemove }) => {
+  const references = character.referenceImages ?? [];
+  const renderedScenes = scenes.map((scene, i) => ({ scene, i })).filter(({ scene }) => scene.imageUrl);
+  const canAdd = editable && references.length < MAX_REFERENCE_IMAGES;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).slice(0, MAX_REFERENCE_IMAGES - references.length);
+    e.target.value = '';
+    for (const file of files) {
+      try {
+        onAdd(await readImageFile(file));
+      } catch (err) {
+        console.error(err);
+        alert(`Could not read ${file.name} as an image.`);
+      }
+    }
+  };
+
+  if (!editable && references.length === 0) return null;
+
+  return (
+    <div className="space-y-2 pt-2">
+      <p className="text-[9px] font-bold text-zinc-500 uppercase tracking-[0.2em]">Reference Images</p>
+      <div className="flex flex-wrap items-center gap-2">
+        {references.map((url, ri) => (
+          <div key={ri} className="relative w-14 h-14 rounded-lg overflow-hidden border border-white/10 group/ref">
+            <img src={url} alt={`${character.name} reference ${ri + 1}`} className="w-full h-full object-cover" />
+            {editable && (
+              <button
+                onClick={() => onRemove(ri)}
+                className="absolute inset-0 bg-black/60 opacity-0 group-hover/ref:opacity-100 transition-opacity text-red-400"
+                title="Remove reference"
+              >
+                <i className="fas fa-xmark"></i>
+              </button>
+            )}
+          </div>
+        ))}
+        {canAdd && (
+          <label className="w-14 h-14 rounded-lg border border-dashed border-white/20 flex items-center justify-center text-zinc-500 hover:text-zinc-300 hover:border-white/40 cursor-pointer transition-colors" title="Upload reference image">
+            <i className="fas fa-upload text-xs"></i>
+            <input type="file" accept="image/*" multiple className="hidden" onChange={handleUpload} />
+          </label>
+        )}
+        {canAdd && renderedScenes.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const picked = renderedScenes.find(({ scene }) => scene.id === e.target.value);
+              if (picked?.scene.imageUrl) onAdd(picked.scene.imageUrl);
+            }}
+            className="bg-zinc-900/50 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-zinc-400 focus:outline-none"
+          >
+            <option value="">Pick from scene...</option>
+            {renderedScenes.map(({ scene, i }) => (
+              <option key={scene.id} value={scene.id}>Scene {i + 1}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CharacterSheet: React.FC<CharacterSheetProps> = ({ characters, scenes, editable, onUpdate, onAdd, onRemove, onAddReference, onRemoveReference }) => (
+  <div className="glass-morphism p-6 rounded-3xl space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500 border-white/5 shadow-xl">
+    <div className="flex items-center justify-between">
+      <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Character Sheet (Consistency)</h3>
+      {editable && (
+        <button
+          onClick={onAdd}
+          className="text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          <i className="fas fa-plus mr-1"></i> Add Character
+        </button>
+      )}
+    </div>
+    <div className="space-y-3">
+      {characters.length === 0 && (
+        <p className="text-xs text-zinc-600">No characters detected.</p>
+      )}
+      {characters.map((char, i) => (
+        <div key={char.id || i} className="p-4 bg-white/5 border border-white/5 rounded-2xl hover:bg-white/10 transition-colors">
+          {editable ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={char.name}
+                  onChange={(e) => onUpdate(i, { name: e.target.value })}
+                  dir="auto"
+                  placeholder="Name"
+                  className="flex-1 bg-zinc-900/50 border border-white/10 rounded-lg px-3 py-1.5 text-sm font-bold text-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+                <button
+                  onClick={() => onRemove(i)}
+                  className="w-8 h-8 rounded-lg text-zinc-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                  title="Remove character"
+                >
+                  <i className="fas fa-trash text-xs"></i>
+                </button>
+              </div>
+              <input
+                key={(char.aliases ?? []).join('|')}
+                defaultValue={(char.aliases ?? []).join(', ')}
+                onBlur={(e) => onUpdate(i, { aliases: e.target.value.split(',').map(a => a.trim()).filter(Boolean) })}
+                dir="auto"
+                placeholder="Aliases, comma separated (e.g. Dr. Khan, Bilal)"
+                className="w-full bg-zinc-900/50 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-zinc-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              />
+              <textarea
+                value={char.description}
+                onChange={(e) => onUpdate(i, { description: e.target.value })}
+                dir="auto"
+                placeholder="Physical description used in every scene this character appears in"
+                rows={3}
+                className="w-full bg-zinc-900/50 border border-white/10 rounded-lg px-3 py-2 text-xs text-zinc-300 leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-y"
+              />
+            </div>
+          ) : (
+            <>
+              <p dir="auto" className="font-bold text-blue-400">{char.name}</p>
+              {char.aliases && char.aliases.length > 0 && (
+                <p dir="auto" className="text-[10px] text-zinc-500">aka {char.aliases.join(', ')}</p>
+              )}
+              <p dir="auto" className="text-xs text-zinc-400 mt-1 leading-relaxed">{char.description}</p>
+            </>
+          )}
+          <ReferenceStrip
+            character={char}
+            scenes={scenes}
+            editable={editable}
+            onAdd={(imageUrl) => onAddReference(i, imageUrl)}
+            onRemove={(referenceIndex) => onRemoveReference(i, referenceIndex)}
+          />
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default CharacterSheet;
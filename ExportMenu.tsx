@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+
+export type ExportKind = 'pdf' | 'manifest-json' | 'manifest-csv' | 'edl' | 'fcpxml' | 'captions-srt' | 'captions-vtt' | 'qa-report';
+
+interface ExportMenuProps {
+  disabled: boolean;
+  sceneSeconds: number;
+  onSceneSecondsChange: (seconds: number) => void;
+  onExport: (kind: ExportKind) => void;
+}
+
+const EXPORT_ITEMS: { kind: ExportKind; label: string; icon: string; hint: string }[] = [
+  { kind: 'pdf', label: 'PDF Storyboard', icon: 'fa-file-pdf', hint: 'Printable panels with captions' },
+  { kind: 'manifest-json', label: 'Manifest (JSON)', icon: 'fa-file-code', hint: 'Scenes, prompts and character sheet' },
+  { kind: 'manifest-csv', label: 'Manifest (CSV)', icon: 'fa-file-csv', hint: 'One row per scene' },
+  { kind: 'edl', label: 'Timeline (EDL)', icon: 'fa-film', hint: 'CMX3600, for Premiere / Resolve / Avid' },
+  { kind: 'fcpxml', label: 'Timeline (FCPXML)', icon: 'fa-film', hint: 'Final Cut Pro / Resolve' },
+  { kind: 'captions-srt', label: 'Captions (SRT)', icon: 'fa-closed-captioning', hint: 'Scene text in the script\'s language, on the timeline' },
+  { kind: 'captions-vtt', label: 'Captions (WebVTT)', icon: 'fa-closed-captioning', hint: 'Same captions for web players' },
+  { kind: 'qa-report', label: 'Consistency Report', icon: 'fa-clipboard-check', hint: 'Scores and reasons from the consistency check' }
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, sceneSeconds, onSceneSecondsChange, onExport }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        disabled={disabled}
+        className="flex items-center gap-2 px-4 py-2 border border-white/20 text-zinc-300 rounded-full text-sm font-bold hover:bg-white/5 transition-all disabled:opacity-50"
+      >
+        <i className="fas fa-share-from-square"></i> Export <i className="fas fa-chevron-down text-[10px]"></i>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 z-40 glass-morphism bg-[#111] rounded-2xl p-2 shadow-2xl">
+          {EXPORT_ITEMS.map((item) => (
+            <button
+              key={item.kind}
+              onClick={() => { onExport(item.kind); setIsOpen(false); }}
+              className="w-full flex items-start gap-3 px-3 py-2 rounded-xl text-left hover:bg-white/10 transition-colors"
+            >
+              <i className={`fas ${item.icon} text-blue-400 mt-0.5`}></i>
+              <span>
+                <span className="block text-sm text-zinc-200">{item.label}</span>
+                <span className="block text-[11px] text-zinc-500">{item.hint}</span>
+              </span>
+            </button>
+          ))}
+          <label className="flex items-center justify-between gap-2 px-3 py-2 mt-1 border-t border-white/5 text-xs text-zinc-400">
+            Seconds per scene
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={sceneSeconds}
+              onChange={(e) => onSceneSecondsChange(Math.max(0.5, Number(e.target.value) || 0.5))}
+              className="w-16 bg-zinc-900/50 border border-white/10 rounded-lg px-2 py-1 text-right text-zinc-200 focus:outline-none"
+            />
+          </label>
+          <p className="px-3 pb-2 text-[10px] text-zinc-600">Subtitle-imported scenes keep their own timing.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
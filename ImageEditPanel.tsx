@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface ImageEditPanelProps {
+  imageUrl: string;
+  busy: boolean;
+  onApply: (instruction: string, mask: string | null) => void;
+  onCancel: () => void;
+}
+
+interface Stroke {
+  size: number; // Brush diameter in image pixels
+  points: [number, number][];
+}
+
+const EXAMPLES = ['Make it night', 'Remove the car', 'Add light rain'];
+
+// Strokes are kept as data so the same brush work can be drawn as the red overlay and as the mask
+const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: Stroke[], colour: string) => {
+  ctx.strokeStyle = colour;
+  ctx.fillStyle = colour;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const stroke of strokes) {
+    const [first, ...rest] = stroke.points;
+    if (!first) continue;
+    ctx.lineWidth = stroke.size;
+    ctx.beginPath();
+    ctx.arc(first[0], first[1], stroke.size / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.moveTo(first[0], first[1]);
+    rest.forEach(([x, y]) => ctx.lineTo(x, y));
+    ctx.stroke();
+  }
+};
+
+// White where the model may change the image, black everywhere else
+const renderMask = (width: number, height: number, strokes: Stroke[]): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  drawStrokes(ctx, strokes, '#fff');
+  return canvas.toDataURL('image/png');
+};
+
+const ImageEditPanel: React.FC<ImageEditPanelProps> = ({ imageUrl, busy, onApply, onCancel }) => {
+  const [instruction, setInstruction] = useState<string>('');
+  const [isMasking, setIsMasking] = useState<boolean>(false);
+  const [brushSize, setBrushSize] = useState<number>(0.06); // Fraction of the image width
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size) return;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawStrokes(ctx, strokes, '#ef4444');
+  }, [strokes, size, isMasking]);
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [(e.clientX - rect.left) * (e.currentTarget.width / rect.width), (e.clientY - rect.top) * (e.currentTarget.height / rect.height)];
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!size) return;
+    drawingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStrokes(list => [...list, { size: Math.max(2, brushSize * size.width), points: [toImagePoint(e)] }]);
+  };
+
+  const extendStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const point = toImagePoint(e);
+    setStrokes(list => list.map((s, i) => i === list.length - 1 ? { ...s, points: [...s.points, point] } : s));
+  };
+
+  const apply = () => {
+    if (!instruction.trim() || busy) return;
+    onApply(instruction.trim(), size && strokes.length > 0 ? renderMask(size.width, size.height, strokes) : null);
+  };
+
+  return (
+    <div className="mx-4 mt-3 p-3 rounded-2xl bg-zinc-900/60 border border-white/5 space-y-3">
+      {/* Drawn at the image's own size so the canvas lines up with it pixel for pixel */}
+      <div className="relative rounded-xl overflow-hidden bg-zinc-950">
+        <img
+          src={imageUrl}
+          alt="Image to edit"
+          className="block w-full h-auto"
+          onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        />
+        {size && (
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            onPointerDown={isMasking ? startStroke : undefined}
+            onPointerMove={isMasking ? extendStroke : undefined}
+            onPointerUp={() => { drawingRef.current = false; }}
+            className={`absolute inset-0 w-full h-full opacity-50 touch-none ${isMasking ? 'cursor-crosshair' : 'pointer-events-none'}`}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[10px] text-zinc-400">
+        <button
+          onClick={() => setIsMasking(m => !m)}
+          className={`px-2 py-1 rounded-md border transition-colors ${isMasking ? 'border-red-500/50 bg-red-500/10 text-red-300' : 'border-white/10 hover:text-zinc-200'}`}
+          title="Paint over the area the edit may change; everything else stays as it is"
+        >
+          <i className="fas fa-paintbrush mr-1"></i>{isMasking ? 'Painting mask' : 'Brush mask'}
+        </button>
+        {isMasking && (
+          <label className="flex items-center gap-1">
+            Size
+            <input type="range" min={0.01} max={0.2} step={0.01} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-20" />
+          </label>
+        )}
+        {strokes.length > 0 && (
+          <>
+            <button onClick={() => setStrokes(list => list.slice(0, -1))} className="hover:text-zinc-200">Undo</button>
+            <button onClick={() => setStrokes([])} className="hover:text-red-400">Clear mask</button>
+          </>
+        )}
+        <span className="ml-auto text-zinc-600">{strokes.length > 0 ? 'Edit limited to the painted area' : 'Edit applies to the whole image'}</span>
+      </div>
+
+      <textarea
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) apply(); }}
+        rows={2}
+        placeholder={`Describe the change, e.g. "${EXAMPLES.join('", "')}"`}
+        className="w-full bg-zinc-900/50 border border-white/10 rounded-lg px-3 py-2 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-y"
+      />
+
+      <div className="flex justify-end gap-2 text-xs">
+        <button onClick={onCancel} className="px-3 py-1.5 rounded-lg text-zinc-400 hover:text-white">Cancel</button>
+        <button
+          onClick={apply}
+          disabled={!instruction.trim() || busy}
+          className="px-3 py-1.5 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600"
+        >
+          {busy ? <><i className="fas fa-spinner fa-spin mr-1"></i>Editing...</> : 'Apply edit'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditPanel;
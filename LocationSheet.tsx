@@ -0,0 +1,79 @@
+import React from 'react';
+import { LocationInfo, ScenePrompt } from './types';
+
+interface LocationSheetProps {
+  locations: LocationInfo[];
+  scenes: ScenePrompt[];
+  editable: boolean;
+  onUpdate: (index: number, patch: Partial<LocationInfo>) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+}
+
+// Scene numbers set at a location, e.g. "Scenes 1, 2, 5"
+const usedIn = (location: LocationInfo, scenes: ScenePrompt[]): string => {
+  const numbers = scenes.flatMap((s, i) => s.continuity?.locationId === location.id ? [i + 1] : []);
+  if (numbers.length === 0) return 'Not used in any scene';
+  return `${numbers.length === 1 ? 'Scene' : 'Scenes'} ${numbers.join(', ')}`;
+};
+
+const LocationSheet: React.FC<LocationSheetProps> = ({ locations, scenes, editable, onUpdate, onAdd, onRemove }) => (
+  <div className="glass-morphism p-6 rounded-3xl space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500 border-white/5 shadow-xl">
+    <div className="flex items-center justify-between">
+      <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Location Sheet (Continuity)</h3>
+      {editable && (
+        <button
+          onClick={onAdd}
+          className="text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          <i className="fas fa-plus mr-1"></i> Add Location
+        </button>
+      )}
+    </div>
+    <div className="space-y-3">
+      {locations.length === 0 && (
+        <p className="text-xs text-zinc-600">No locations detected.</p>
+      )}
+      {locations.map((location, i) => (
+        <div key={location.id || i} className="p-4 bg-white/5 border border-white/5 rounded-2xl hover:bg-white/10 transition-colors">
+          {editable ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={location.name}
+                  onChange={(e) => onUpdate(i, { name: e.target.value })}
+                  dir="auto"
+                  placeholder="Name"
+                  className="flex-1 bg-zinc-900/50 border border-white/10 rounded-lg px-3 py-1.5 text-sm font-bold text-emerald-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+                <button
+                  onClick={() => onRemove(i)}
+                  className="w-8 h-8 rounded-lg text-zinc-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                  title="Remove location"
+                >
+                  <i className="fas fa-trash text-xs"></i>
+                </button>
+              </div>
+              <textarea
+                value={location.description}
+                onChange={(e) => onUpdate(i, { description: e.target.value })}
+                dir="auto"
+                placeholder="Visual description used in every scene set here: layout, materials, colours, light"
+                rows={3}
+                className="w-full bg-zinc-900/50 border border-white/10 rounded-lg px-3 py-2 text-xs text-zinc-300 leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-y"
+              />
+            </div>
+          ) : (
+            <>
+              <p dir="auto" className="font-bold text-emerald-400">{location.name}</p>
+              <p dir="auto" className="text-xs text-zinc-400 mt-1 leading-relaxed">{location.description}</p>
+            </>
+          )}
+          <p className="text-[10px] text-zinc-500 mt-2">{usedIn(location, scenes)}</p>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default LocationSheet;
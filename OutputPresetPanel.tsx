@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { OUTPUT_PRESETS, targetSize } from './imageOutput';
+import { readImageFile } from './imageUtils';
+import { OutputFormat, OutputOptions } from './types';
+
+interface OutputPresetPanelProps {
+  options: OutputOptions;
+  aspectRatio: string;
+  onChange: (options: OutputOptions) => void;
+}
+
+const FORMATS: { value: OutputFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' }
+];
+
+const RESIZE_MODES: { value: OutputOptions['resize']; label: string }[] = [
+  { value: 'original', label: 'Original size' },
+  { value: 'fit', label: 'Fit within' },
+  { value: 'crop', label: 'Crop to' }
+];
+
+const CAPTIONS: { value: OutputOptions['caption']; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'text', label: 'Scene text' },
+  { value: 'number', label: 'Scene number' }
+];
+
+const fieldLabel = "text-[10px] font-bold text-zinc-500 uppercase tracking-widest";
+const fieldInput = "bg-zinc-900/50 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const OutputPresetPanel: React.FC<OutputPresetPanelProps> = ({ options, aspectRatio, onChange }) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const size = targetSize(options, aspectRatio);
+  const preset = OUTPUT_PRESETS.find(p => p.options.presetId === options.presetId);
+
+  // Any change by hand turns the options into a custom set
+  const update = (patch: Partial<OutputOptions>) => onChange({ ...options, ...patch, presetId: 'custom' });
+
+  const updateSize = (patch: Partial<{ width: number; height: number }>) =>
+    update({ sizes: { ...options.sizes, [aspectRatio]: { ...size, ...patch } } });
+
+  const handleSelect = (id: string) => {
+    const next = OUTPUT_PRESETS.find(p => p.options.presetId === id);
+    // Presets change the format and size; a watermark set up by hand is kept
+    if (next) onChange({ ...next.options, watermarkText: options.watermarkText, watermarkImage: options.watermarkImage, watermarkOpacity: options.watermarkOpacity });
+  };
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ watermarkImage: await readImageFile(file, 512, 'image/png') });
+    } catch (err) {
+      console.error(err);
+      alert(`Could not read ${file.name} as an image.`);
+    }
+  };
+
+  const summary = [
+    options.format.toUpperCase() + (options.format === 'png' ? '' : ` ${options.quality}%`),
+    options.resize === 'original' ? 'original size' : `${options.resize === 'crop' ? 'cropped to' : 'within'} ${size.width}×${size.height}`,
+    options.caption === 'text' ? 'scene text caption' : options.caption === 'number' ? 'scene number caption' : '',
+    options.watermarkText.trim() || options.watermarkImage ? 'watermark' : ''
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Image Output</label>
+        {!preset && <span className="text-[10px] font-bold text-amber-400 uppercase tracking-widest">Custom</span>}
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          value={preset ? options.presetId : 'custom'}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 bg-zinc-900/50 border border-white/10 rounded-xl px-3 py-2 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        >
+          {OUTPUT_PRESETS.map(p => <option key={p.options.presetId} value={p.options.presetId}>{p.name}</option>)}
+          {!preset && <option value="custom">Custom</option>}
+        </select>
+        <button
+          onClick={() => setIsEditing(e => !e)}
+          className={`w-9 h-9 rounded-xl border text-xs transition-all ${isEditing ? 'bg-blue-600 border-blue-500 text-white' : 'border-white/10 text-zinc-400 hover:bg-white/5'}`}
+          title="Edit output settings"
+        >
+          <i className="fas fa-sliders"></i>
+        </button>
+      </div>
+      <p className="text-xs text-zinc-500 leading-relaxed">{summary}. Applied to image downloads and the ZIP.</p>
+
+      {isEditing && (
+        <div className="space-y-3 p-4 rounded-2xl border border-white/5 bg-zinc-900/30">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block space-y-1">
+              <span className={fieldLabel}>Format</span>
+              <select value={options.format} onChange={(e) => update({ format: e.target.value as OutputFormat })} className={`w-full ${fieldInput}`}>
+                {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className={fieldLabel}>Quality {options.format === 'png' ? '' : `${options.quality}%`}</span>
+              <input
+                type="range"
+                min={10}
+                max={100}
+                value={options.quality}
+                disabled={options.format === 'png'}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                className="w-full disabled:opacity-40"
+              />
+            </label>
+          </div>
+          <div className="space-y-1">
+            <span className={fieldLabel}>Size for {aspectRatio}</span>
+            <div className="flex items-center gap-2">
+              <select value={options.resize} onChange={(e) => update({ resize: e.target.value as OutputOptions['resize'] })} className={`flex-1 ${fieldInput}`}>
+                {RESIZE_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+              <input
+                type="number"
+                min={16}
+                max={8192}
+                value={size.width}
+                disabled={options.resize === 'original'}
+                onChange={(e) => updateSize({ width: Math.min(8192, Math.max(16, Number(e.target.value) || 16)) })}
+                className={`w-20 text-right disabled:opacity-40 ${fieldInput}`}
+              />
+              <span className="text-xs text-zinc-600">×</span>
+              <input
+                type="number"
+                min={16}
+                max={8192}
+                value={size.height}
+                disabled={options.resize === 'original'}
+                onChange={(e) => updateSize({ height: Math.min(8192, Math.max(16, Number(e.target.value) || 16)) })}
+                className={`w-20 text-right disabled:opacity-40 ${fieldInput}`}
+              />
+            </div>
+          </div>
+          <label className="block space-y-1">
+            <span className={fieldLabel}>Burned-in caption</span>
+            <select value={options.caption} onChange={(e) => update({ caption: e.target.value as OutputOptions['caption'] })} className={`w-full ${fieldInput}`}>
+              {CAPTIONS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+            </select>
+          </label>
+          <div className="space-y-1">
+            <span className={fieldLabel}>Watermark</span>
+            <div className="flex items-center gap-2">
+              <input
+                value={options.watermarkText}
+                onChange={(e) => update({ watermarkText: e.target.value })}
+                placeholder="Text, e.g. © Studio Name"
+                className={`flex-1 min-w-0 ${fieldInput}`}
+              />
+              {options.watermarkImage ? (
+                <span className="flex items-center gap-1">
+                  <img src={options.watermarkImage} alt="Watermark logo" className="h-8 w-8 object-contain rounded border border-white/10 bg-zinc-800" />
+                  <button
+                    onClick={() => update({ watermarkImage: null })}
+                    className="w-7 h-7 rounded-lg text-zinc-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                    title="Remove logo"
+                  >
+                    <i className="fas fa-xmark text-xs"></i>
+                  </button>
+                </span>
+              ) : (
+                <label className="px-2 py-1.5 rounded-lg border border-white/10 text-xs text-zinc-300 hover:bg-white/5 transition-all cursor-pointer" title="Add a logo image">
+                  <i className="fas fa-image mr-1"></i> Logo
+                  <input type="file" accept="image/*" onChange={handleLogo} className="hidden" />
+                </label>
+              )}
+            </div>
+            {(options.watermarkText.trim() || options.watermarkImage) && (
+              <label className="flex items-center gap-2 text-[10px] text-zinc-500">
+                Opacity
+                <input
+                  type="range"
+                  min={10}
+                  max={100}
+                  value={Math.round(options.watermarkOpacity * 100)}
+                  onChange={(e) => update({ watermarkOpacity: Number(e.target.value) / 100 })}
+                  className="flex-1"
+                />
+                {Math.round(options.watermarkOpacity * 100)}%
+              </label>
+            )}
+          </div>
+          <p className="text-[10px] text-zinc-600">The images in the project stay as generated; these settings only change what you download. The PDF storyboard and the CLI use the original images.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutputPresetPanel;
@@ -0,0 +1,103 @@
+import React, { useRef } from 'react';
+import { ProjectSummary } from './types';
+
+interface ProjectPanelProps {
+  projects: ProjectSummary[];
+  currentId: string | null;
+  disabled: boolean;
+  onClose: () => void;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const actionButton = "w-8 h-8 rounded-lg flex items-center justify-center text-zinc-500 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30";
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  projects, currentId, disabled, onClose, onNew, onOpen, onRename, onDuplicate, onDelete, onExport, onImport
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-start justify-center pt-24 px-6" onClick={onClose}>
+      <div className="glass-morphism bg-[#111] w-full max-w-2xl rounded-3xl p-6 space-y-5 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold tracking-tight">Projects</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={disabled}
+              className="flex items-center gap-2 px-4 py-2 rounded-full border border-white/20 hover:bg-white/5 transition-all text-sm font-medium disabled:opacity-50"
+            >
+              <i className="fas fa-file-import"></i> Import
+            </button>
+            <input
+              type="file"
+              ref={importInputRef}
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={onNew}
+              disabled={disabled}
+              className="flex items-center gap-2 px-4 py-2 rounded-full bg-blue-600 text-white text-sm font-bold hover:bg-blue-500 transition-all disabled:opacity-50"
+            >
+              <i className="fas fa-plus"></i> New Project
+            </button>
+            <button onClick={onClose} className={actionButton} title="Close">
+              <i className="fas fa-xmark"></i>
+            </button>
+          </div>
+        </div>
+        {disabled && (
+          <p className="text-xs text-amber-400/80">Switching projects is disabled while a batch is running.</p>
+        )}
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+          {projects.length === 0 && <p className="text-sm text-zinc-600">No saved projects yet.</p>}
+          {projects.map((project) => (
+            <div
+              key={project.id}
+              className={`flex items-center gap-3 p-4 rounded-2xl border transition-colors ${
+                project.id === currentId ? 'bg-blue-600/10 border-blue-500/30' : 'bg-white/5 border-white/5 hover:bg-white/10'
+              }`}
+            >
+              <button
+                onClick={() => onOpen(project.id)}
+                disabled={disabled || project.id === currentId}
+                className="flex-1 text-left min-w-0"
+              >
+                <p className="font-semibold text-zinc-200 truncate">{project.name}</p>
+                <p className="text-xs text-zinc-500">
+                  {project.completedCount}/{project.sceneCount} scenes done · {new Date(project.updatedAt).toLocaleString()}
+                </p>
+              </button>
+              <button onClick={() => onRename(project.id)} className={actionButton} title="Rename">
+                <i className="fas fa-pen text-xs"></i>
+              </button>
+              <button onClick={() => onDuplicate(project.id)} disabled={disabled} className={actionButton} title="Duplicate">
+                <i className="fas fa-copy text-xs"></i>
+              </button>
+              <button onClick={() => onExport(project.id)} className={actionButton} title="Export as file">
+                <i className="fas fa-file-export text-xs"></i>
+              </button>
+              <button onClick={() => onDelete(project.id)} disabled={disabled && project.id === currentId} className={`${actionButton} hover:text-red-400`} title="Delete">
+                <i className="fas fa-trash text-xs"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectPanel;
@@ -0,0 +1,432 @@
+import React, { useState } from 'react';
+import { sceneCharacters, sceneLocation } from './characterContext';
+import { formatTiming } from './scriptImporters';
+import { toggleSceneCharacter, updateContinuity } from './sceneEditing';
+import { isFlagged } from './consistencyCheck';
+import { CharacterInfo, LocationInfo, SceneContinuity, ScenePrompt, ScriptLanguage } from './types';
+import ImageEditPanel from './ImageEditPanel';
+
+interface SceneCardProps {
+  scene: ScenePrompt;
+  index: number;
+  total: number;
+  aspectRatio: string;
+  characters: CharacterInfo[];
+  locations: LocationInfo[];
+  language?: ScriptLanguage; // Of the source text; scene text is laid out per paragraph with dir="auto"
+  editable: boolean;
+  onChange: (patch: Partial<ScenePrompt>) => void;
+  onDelete: () => void;
+  onMove: (offset: number) => void;
+  onSplit: () => void;
+  onMergeNext: () => void;
+  onInsertAfter: () => void;
+  onRegenerate: () => void;
+  onEditImage: (instruction: string, mask: string | null) => Promise<boolean>; // Resolves true once the edit is a new take
+  onCheck: () => Promise<boolean>;
+  qaThreshold: number;
+  onSelectTake: (takeId: string) => void;
+  onRemoveTake: (takeId: string) => void;
+  onLockLook: (characterId: string) => void;
+  onDownload: () => void;
+}
+
+const continuityInput = "w-full bg-zinc-900/50 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-zinc-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const CONTINUITY_FIELDS: { key: 'timeOfDay' | 'weather' | 'shot' | 'wardrobe'; label: string; placeholder: string }[] = [
+  { key: 'timeOfDay', label: 'Time of day', placeholder: 'e.g. dusk' },
+  { key: 'weather', label: 'Weather', placeholder: 'e.g. light rain' },
+  { key: 'shot', label: 'Shot / angle', placeholder: 'e.g. low-angle wide shot' },
+  { key: 'wardrobe', label: 'Wardrobe changes', placeholder: 'e.g. Ayesha wears a raincoat' }
+];
+
+const toolButton = "w-7 h-7 rounded-lg flex items-center justify-center text-zinc-500 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+const SceneCard: React.FC<SceneCardProps> = ({
+  scene, index, total, aspectRatio, characters, locations, language, editable,
+  onChange, onDelete, onMove, onSplit, onMergeNext, onInsertAfter, onRegenerate, onEditImage, onCheck, qaThreshold, onSelectTake, onRemoveTake, onLockLook, onDownload
+}) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [isLocking, setIsLocking] = useState<boolean>(false);
+  const [isEditingImage, setIsEditingImage] = useState<boolean>(false);
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const takes = scene.takes ?? [];
+  const selectedTake = takes.find(t => t.id === scene.selectedTakeId);
+  const qa = selectedTake?.qa;
+  const flagged = isFlagged(qa, qaThreshold);
+  const sourceLang = language && language.code !== 'und' ? language.code : undefined;
+
+  const runCheck = async () => {
+    setIsChecking(true);
+    try {
+      await onCheck();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+  const editing = editable && isEditing;
+  const cast = sceneCharacters(characters, scene);
+
+  const unresolved = scene.unresolvedCharacters ?? [];
+  const continuity: SceneContinuity = scene.continuity ?? {};
+  const location = sceneLocation(locations, scene);
+  const staging = [location?.name, continuity.timeOfDay, continuity.weather, continuity.shot].filter(Boolean);
+  const setContinuity = (patch: Partial<SceneContinuity>) => onChange(updateContinuity(scene, patch));
+
+  return (
+    <div className="group relative glass-morphism rounded-3xl overflow-hidden border border-white/10 transition-all hover:border-blue-500/50 hover:shadow-2xl hover:shadow-blue-500/5">
+      <div className={`relative bg-zinc-950 flex items-center justify-center overflow-hidden`} style={{ aspectRatio: aspectRatio.replace(':', '/') }}>
+        {scene.imageUrl ? (
+          <>
+            <img
+              src={scene.imageUrl}
+              alt={`Scene ${index + 1}`}
+              className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
+            />
+            <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
+              <button
+                onClick={onDownload}
+                className="w-12 h-12 bg-white text-black rounded-full flex items-center justify-center hover:scale-110 transition-transform shadow-xl"
+                title="Download"
+              >
+                <i className="fas fa-download"></i>
+              </button>
+              {editable && (
+                <button
+                  onClick={onRegenerate}
+                  className="w-12 h-12 bg-white text-black rounded-full flex items-center justify-center hover:scale-110 transition-transform shadow-xl"
+                  title="Regenerate"
+                >
+                  <i className="fas fa-rotate"></i>
+                </button>
+              )}
+            </div>
+            {selectedTake?.cached && scene.status !== 'generating' && (
+              <div className="absolute top-4 right-4 bg-black/60 backdrop-blur-md px-3 py-1 rounded-full border border-white/10 flex items-center gap-2" title="Reused from the image cache; regenerate for a new image">
+                <i className="fas fa-database text-[10px] text-emerald-400"></i>
+                <span className="text-[10px] font-bold text-emerald-300 uppercase tracking-wider">Cached</span>
+              </div>
+            )}
+            {scene.status === 'generating' && (
+              <div className="absolute top-4 right-4 bg-black/60 backdrop-blur-md px-3 py-1 rounded-full border border-white/10 flex items-center gap-2">
+                <div className="w-3 h-3 border-2 border-blue-500/20 border-t-blue-500 rounded-full animate-spin"></div>
+                <span className="text-[10px] font-bold text-blue-300 uppercase tracking-wider">New take...</span>
+              </div>
+            )}
+          </>
+        ) : scene.status === 'generating' ? (
+          <div className="flex flex-col items-center gap-4">
+            <div className="w-10 h-10 border-4 border-blue-500/20 border-t-blue-500 rounded-full animate-spin"></div>
+            <span className="text-xs font-semibold text-blue-400 uppercase tracking-widest animate-pulse">
+              {scene.attempts && scene.attempts > 1 ? `Retrying (attempt ${scene.attempts})...` : 'Creating Visuals...'}
+            </span>
+            {scene.error && <p className="text-[10px] text-amber-400/80 px-6 text-center">{scene.error}</p>}
+          </div>
+        ) : scene.status === 'error' ? (
+          <div className="text-center px-6">
+            <i className="fas fa-exclamation-triangle text-red-500 mb-2"></i>
+            <p className="text-xs text-red-400">{scene.error || 'Generation Failed'}</p>
+          </div>
+        ) : (
+          <i className="fas fa-hourglass-half text-zinc-800 text-3xl"></i>
+        )}
+        <div className="absolute top-4 left-4 flex gap-2">
+          <div className="bg-black/60 backdrop-blur-md px-3 py-1 rounded-full border border-white/10">
+            <span className="text-[10px] font-bold text-white uppercase tracking-wider">SCENE {index + 1}</span>
+          </div>
+          {scene.timing && (
+            <div className="bg-black/60 backdrop-blur-md px-3 py-1 rounded-full border border-white/10">
+              <span className="text-[10px] font-mono text-zinc-300">{formatTiming(scene.timing)}</span>
+            </div>
+          )}
+          {qa && (
+            <div
+              className={`backdrop-blur-md px-3 py-1 rounded-full border ${flagged ? 'bg-red-500/80 border-red-300/30' : 'bg-emerald-600/80 border-emerald-300/30'}`}
+              title={qa.reasons.length > 0 ? qa.reasons.join('\n') : 'Matches the scene and character sheet'}
+            >
+              <span className="text-[10px] font-bold text-white uppercase tracking-wider">
+                <i className={`fas ${flagged ? 'fa-triangle-exclamation' : 'fa-clipboard-check'} mr-1`}></i>QA {qa.score}
+              </span>
+            </div>
+          )}
+          {unresolved.length > 0 && (
+            <div
+              className="bg-amber-500/80 backdrop-blur-md px-3 py-1 rounded-full border border-amber-300/30"
+              title={`No character on the sheet matches: ${unresolved.join(', ')}. Add them as aliases, or set the cast by hand.`}
+            >
+              <span className="text-[10px] font-bold text-black uppercase tracking-wider">
+                <i className="fas fa-user-slash mr-1"></i>{unresolved.length} unresolved
+              </span>
+            </div>
+          )}
+        </div>
+        {scene.presentCharacters.length > 0 && (
+          <div className="absolute bottom-4 left-4 right-4 flex flex-wrap gap-1 opacity-80 group-hover:opacity-100 transition-opacity">
+            {scene.presentCharacters.map((c, ci) => (
+              <span key={ci} className="text-[9px] bg-blue-600/80 backdrop-blur px-2 py-0.5 rounded-md text-white border border-white/10 font-medium">
+                {c}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      {editable && (
+        <div className="flex items-center gap-1 px-4 pt-3">
+          <button onClick={() => setIsEditing(e => !e)} className={`${toolButton} ${isEditing ? 'text-blue-400' : ''}`} title={isEditing ? 'Done editing' : 'Edit scene'}>
+            <i className={`fas ${isEditing ? 'fa-check' : 'fa-pen'} text-xs`}></i>
+          </button>
+          <button onClick={() => onMove(-1)} disabled={index === 0} className={toolButton} title="Move up">
+            <i className="fas fa-arrow-up text-xs"></i>
+          </button>
+          <button onClick={() => onMove(1)} disabled={index === total - 1} className={toolButton} title="Move down">
+            <i className="fas fa-arrow-down text-xs"></i>
+          </button>
+          <button onClick={onSplit} className={toolButton} title="Split scene in two">
+            <i className="fas fa-scissors text-xs"></i>
+          </button>
+          <button onClick={onMergeNext} disabled={index === total - 1} className={toolButton} title="Merge with next scene">
+            <i className="fas fa-object-group text-xs"></i>
+          </button>
+          <button onClick={onInsertAfter} className={toolButton} title="Add scene after">
+            <i className="fas fa-plus text-xs"></i>
+          </button>
+          <div className="flex-1"></div>
+          {takes.length > 0 && (
+            <button onClick={() => setShowHistory(h => !h)} className={`${toolButton} ${showHistory ? 'text-blue-400' : ''}`} title="Generation history">
+              <i className="fas fa-clock-rotate-left text-xs"></i>
+            </button>
+          )}
+          {scene.imageUrl && (
+            <button onClick={() => setIsEditingImage(e => !e)} className={`${toolButton} ${isEditingImage ? 'text-blue-400' : ''}`} title="Edit this image with an instruction">
+              <i className="fas fa-paintbrush text-xs"></i>
+            </button>
+          )}
+          {scene.imageUrl && (
+            <button onClick={runCheck} disabled={isChecking || scene.status === 'generating'} className={toolButton} title="Check this image against the scene and character sheet">
+              <i className={`fas ${isChecking ? 'fa-spinner fa-spin' : 'fa-clipboard-check'} text-xs`}></i>
+            </button>
+          )}
+          {scene.imageUrl && cast.length > 0 && (
+            <button onClick={() => setIsLocking(l => !l)} className={`${toolButton} ${isLocking ? 'text-amber-400' : ''}`} title="Lock this look as a character reference">
+              <i className="fas fa-lock text-xs"></i>
+            </button>
+          )}
+          <button onClick={onRegenerate} className={toolButton} title={scene.imageUrl ? 'Regenerate this scene' : 'Generate this scene'}>
+            <i className="fas fa-rotate text-xs"></i>
+          </button>
+          <button onClick={onDelete} className={`${toolButton} hover:text-red-400`} title="Delete scene">
+            <i className="fas fa-trash text-xs"></i>
+          </button>
+        </div>
+      )}
+      {takes.length > 1 && (
+        <div className="flex gap-2 px-4 pt-3 overflow-x-auto">
+          {takes.map((take, ti) => (
+            <button
+              key={take.id}
+              onClick={() => onSelectTake(take.id)}
+              disabled={!editable}
+              className={`relative shrink-0 w-20 rounded-lg overflow-hidden border-2 transition-all ${
+                take.id === scene.selectedTakeId ? 'border-blue-500' : 'border-transparent opacity-60 hover:opacity-100'
+              }`}
+              style={{ aspectRatio: aspectRatio.replace(':', '/') }}
+              title={`Take ${ti + 1}`}
+            >
+              <img src={take.imageUrl} alt={`Take ${ti + 1}`} className="w-full h-full object-cover" />
+              <span className="absolute bottom-0.5 right-1 text-[9px] font-bold text-white drop-shadow">{ti + 1}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {showHistory && takes.length > 0 && (
+        <div className="mx-4 mt-3 p-3 rounded-2xl bg-zinc-900/60 border border-white/5 space-y-3 max-h-72 overflow-y-auto">
+          {[...takes].reverse().map((take) => {
+            const number = takes.indexOf(take) + 1;
+            const selected = take.id === scene.selectedTakeId;
+            return (
+              <div key={take.id} className="flex gap-3">
+                <img src={take.imageUrl} alt={`Take ${number}`} className="w-16 h-16 rounded-lg object-cover shrink-0" />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-2 text-[10px] text-zinc-500">
+                    <span className="font-bold text-zinc-300">Take {number}</span>
+                    <span>{new Date(take.createdAt).toLocaleString()}</span>
+                    {selected && <span className="text-blue-400 font-bold uppercase">Selected</span>}
+                    {take.cached && <span className="text-emerald-400 font-bold uppercase">Cached</span>}
+                    {take.qa && (
+                      <span className={`font-bold ${isFlagged(take.qa, qaThreshold) ? 'text-red-400' : 'text-emerald-400'}`} title={take.qa.reasons.join('\n')}>
+                        QA {take.qa.score}
+                      </span>
+                    )}
+                  </div>
+                  {take.instruction && (
+                    <p className="text-[10px] text-zinc-400">
+                      <i className="fas fa-paintbrush mr-1 text-zinc-600"></i>
+                      Edited{take.editedFrom && takes.some(t => t.id === take.editedFrom) ? ` from take ${takes.findIndex(t => t.id === take.editedFrom) + 1}` : ''}: "{take.instruction}"
+                    </p>
+                  )}
+                  <details className="text-[10px] text-zinc-500">
+                    <summary className="cursor-pointer hover:text-zinc-300">Final prompt</summary>
+                    <pre className="whitespace-pre-wrap font-sans mt-1 text-zinc-400">{take.prompt}</pre>
+                  </details>
+                  {editable && (
+                    <div className="flex gap-3 text-[10px]">
+                      {!selected && (
+                        <button onClick={() => onSelectTake(take.id)} className="text-blue-400 hover:text-blue-300">Use this take</button>
+                      )}
+                      <button onClick={() => onRemoveTake(take.id)} className="text-zinc-500 hover:text-red-400">Delete</button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {editable && isEditingImage && scene.imageUrl && (
+        <ImageEditPanel
+          imageUrl={scene.imageUrl}
+          busy={scene.status === 'generating'}
+          onApply={async (instruction, mask) => { if (await onEditImage(instruction, mask)) setIsEditingImage(false); }}
+          onCancel={() => setIsEditingImage(false)}
+        />
+      )}
+      {editable && isLocking && scene.imageUrl && (
+        <div className="flex flex-wrap items-center gap-1 px-4 pt-2">
+          <span className="text-[10px] text-zinc-500 mr-1">Use this image as the reference for:</span>
+          {cast.map((c) => (
+            <button
+              key={c.name}
+              onClick={() => { onLockLook(c.id); setIsLocking(false); }}
+              className="text-[10px] px-2 py-0.5 rounded-md border border-amber-500/30 bg-amber-500/10 text-amber-300 hover:bg-amber-500/20 font-medium transition-colors"
+            >
+              {c.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="p-5 space-y-3">
+        {qa && flagged && (
+          <div className="text-[10px] text-red-300/90 space-y-0.5">
+            <p className="font-bold">
+              Consistency {qa.score}/100, below {qaThreshold}{qa.attempts > 1 ? ` after ${qa.attempts} attempts` : ''}
+              {qa.peopleCount !== qa.expectedPeople ? ` · ${qa.peopleCount} ${qa.peopleCount === 1 ? 'person' : 'people'} seen, ${qa.expectedPeople} expected` : ''}
+            </p>
+            {qa.reasons.map((reason, ri) => <p key={ri}>- {reason}</p>)}
+          </div>
+        )}
+        {scene.status === 'completed' && scene.error && (
+          <p className="text-[10px] text-amber-400/80"><i className="fas fa-triangle-exclamation mr-1"></i>{scene.error}</p>
+        )}
+        <div className="space-y-1">
+          <p className="text-[9px] font-bold text-zinc-500 uppercase tracking-[0.2em]">Source Segment</p>
+          {editing ? (
+            <textarea
+              value={scene.originalText}
+              onChange={(e) => onChange({ originalText: e.target.value })}
+              dir="auto"
+              lang={sourceLang}
+              rows={3}
+              className="w-full bg-zinc-900/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-zinc-300 leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-y"
+            />
+          ) : (
+            <p dir="auto" lang={sourceLang} className="text-sm text-zinc-300 line-clamp-2 leading-relaxed italic">"{scene.originalText}"</p>
+          )}
+        </div>
+        <div className="pt-2 border-t border-white/5">
+          <p className="text-[9px] font-bold text-blue-400 uppercase tracking-[0.2em]">AI Visual Prompt</p>
+          {editing ? (
+            <textarea
+              value={scene.refinedPrompt}
+              onChange={(e) => onChange({ refinedPrompt: e.target.value })}
+              dir="auto"
+              rows={4}
+              className="w-full mt-1 bg-zinc-900/50 border border-white/10 rounded-lg px-3 py-2 text-xs text-zinc-300 leading-normal focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-y"
+            />
+          ) : (
+            <p dir="auto" className="text-xs text-zinc-500 line-clamp-3 mt-1 leading-normal">{scene.refinedPrompt}</p>
+          )}
+        </div>
+        {!editing && (staging.length > 0 || continuity.props?.length || continuity.wardrobe) && (
+          <div className="text-[10px] text-zinc-500 space-y-0.5">
+            {staging.length > 0 && <p><i className="fas fa-location-dot mr-1 text-emerald-500/70"></i>{staging.join(' · ')}</p>}
+            {continuity.props && continuity.props.length > 0 && <p><i className="fas fa-cube mr-1"></i>{continuity.props.join(', ')}</p>}
+            {continuity.wardrobe && <p><i className="fas fa-shirt mr-1"></i>{continuity.wardrobe}</p>}
+          </div>
+        )}
+        {editing && (
+          <div className="pt-2 border-t border-white/5 space-y-2">
+            <p className="text-[9px] font-bold text-zinc-500 uppercase tracking-[0.2em]">Characters In Scene</p>
+            <div className="flex flex-wrap gap-1">
+              {characters.map((c, ci) => (
+                <button
+                  key={c.id || ci}
+                  onClick={() => onChange(toggleSceneCharacter(scene, characters, c.id))}
+                  className={`text-[10px] px-2 py-0.5 rounded-md border font-medium transition-colors ${
+                    scene.characterIds?.includes(c.id)
+                      ? 'bg-blue-600/80 border-blue-500 text-white'
+                      : 'bg-zinc-900/50 border-white/10 text-zinc-500 hover:text-zinc-300'
+                  }`}
+                >
+                  {c.name || 'Unnamed'}
+                </button>
+              ))}
+              {characters.length === 0 && <span className="text-[10px] text-zinc-600">Add characters to the sheet first.</span>}
+            </div>
+            {unresolved.length > 0 && (
+              <div className="flex items-center justify-between gap-2 text-[10px] text-amber-400">
+                <span><i className="fas fa-user-slash mr-1"></i>Unresolved: {unresolved.join(', ')}</span>
+                <button onClick={() => onChange({ unresolvedCharacters: undefined })} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+                  Ignore
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+        {editing && (
+          <div className="pt-2 border-t border-white/5 space-y-2">
+            <p className="text-[9px] font-bold text-zinc-500 uppercase tracking-[0.2em]">Continuity</p>
+            <label className="block text-[10px] text-zinc-500 space-y-1">
+              <span>Location</span>
+              <select
+                value={location?.id ?? ''}
+                onChange={(e) => setContinuity({ locationId: e.target.value })}
+                className={continuityInput}
+              >
+                <option value="">Unspecified</option>
+                {locations.map((l, li) => (
+                  <option key={l.id || li} value={l.id}>{l.name || 'Unnamed'}</option>
+                ))}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {CONTINUITY_FIELDS.map(field => (
+                <label key={field.key} className={`block text-[10px] text-zinc-500 space-y-1 ${field.key === 'wardrobe' ? 'col-span-2' : ''}`}>
+                  <span>{field.label}</span>
+                  <input
+                    value={continuity[field.key] ?? ''}
+                    onChange={(e) => setContinuity({ [field.key]: e.target.value })}
+                    placeholder={field.placeholder}
+                    className={continuityInput}
+                  />
+                </label>
+              ))}
+            </div>
+            <label className="block text-[10px] text-zinc-500 space-y-1">
+              <span>Props</span>
+              <input
+                key={(continuity.props ?? []).join('|')}
+                defaultValue={(continuity.props ?? []).join(', ')}
+                onBlur={(e) => setContinuity({ props: e.target.value.split(',').map(p => p.trim()).filter(Boolean) })}
+                placeholder="Comma separated, e.g. red umbrella, brass lantern"
+                className={continuityInput}
+              />
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SceneCard;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ANALYSIS_PLACEHOLDERS, IMAGE_PLACEHOLDERS, STYLE_PRESETS } from './stylePresets';
+import { StylePreset } from './types';
+
+interface StylePresetPanelProps {
+  preset: StylePreset;
+  customPresets: StylePreset[];
+  disabled: boolean;
+  onChange: (preset: StylePreset) => void;
+  onSaveAs: (name: string) => void;
+  onDeleteCustom: (id: string) => void;
+}
+
+const FIELDS: { key: 'style' | 'analysisTemplate' | 'imageTemplate' | 'negativePrompt'; label: string; rows: number; hint?: string }[] = [
+  { key: 'style', label: 'Style', rows: 2 },
+  { key: 'analysisTemplate', label: 'Analysis template', rows: 3, hint: ANALYSIS_PLACEHOLDERS.map(p => `{{${p}}}`).join(' ') },
+  { key: 'imageTemplate', label: 'Image template', rows: 7, hint: IMAGE_PLACEHOLDERS.map(p => `{{${p}}}`).join(' ') },
+  { key: 'negativePrompt', label: 'Negative prompt', rows: 2 }
+];
+
+const StylePresetPanel: React.FC<StylePresetPanelProps> = ({ preset, customPresets, disabled, onChange, onSaveAs, onDeleteCustom }) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const original = STYLE_PRESETS.find(p => p.id === preset.id);
+  const isCustom = customPresets.some(p => p.id === preset.id);
+  const isModified = !!original && FIELDS.some(f => original[f.key] !== preset[f.key]);
+
+  const handleSelect = (id: string) => {
+    const next = [...STYLE_PRESETS, ...customPresets].find(p => p.id === id);
+    if (next) onChange({ ...next });
+  };
+
+  const handleSaveAs = () => {
+    const name = prompt('Preset name', isCustom ? `${preset.name} (copy)` : `My ${preset.name}`)?.trim();
+    if (name) onSaveAs(name);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Style Preset</label>
+        {isModified && <span className="text-[10px] font-bold text-amber-400 uppercase tracking-widest">Modified</span>}
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          value={preset.id}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled}
+          className="flex-1 bg-zinc-900/50 border border-white/10 rounded-xl px-3 py-2 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        >
+          {STYLE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          {customPresets.length > 0 && (
+            <optgroup label="Custom">
+              {customPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={() => setIsEditing(e => !e)}
+          className={`w-9 h-9 rounded-xl border text-xs transition-all ${isEditing ? 'bg-blue-600 border-blue-500 text-white' : 'border-white/10 text-zinc-400 hover:bg-white/5'}`}
+          title="Edit templates"
+        >
+          <i className="fas fa-sliders"></i>
+        </button>
+      </div>
+      <p className="text-xs text-zinc-500 leading-relaxed">{preset.style}</p>
+
+      {isEditing && (
+        <div className="space-y-3 p-4 rounded-2xl border border-white/5 bg-zinc-900/30">
+          {FIELDS.map(field => (
+            <label key={field.key} className="block space-y-1">
+              <span className="flex items-center justify-between text-[10px] font-bold text-zinc-500 uppercase tracking-widest">
+                {field.label}
+                {field.hint && <span className="font-mono normal-case tracking-normal text-zinc-600">{field.hint}</span>}
+              </span>
+              <textarea
+                value={preset[field.key]}
+                onChange={(e) => onChange({ ...preset, [field.key]: e.target.value })}
+                disabled={disabled}
+                rows={field.rows}
+                className="w-full bg-zinc-900/50 border border-white/10 rounded-lg px-3 py-2 text-xs text-zinc-300 font-mono leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-y"
+              />
+            </label>
+          ))}
+          <p className="text-[10px] text-zinc-600">Lines whose placeholders are all empty are left out. Analysis changes apply the next time you analyze.</p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSaveAs}
+              disabled={disabled}
+              className="px-3 py-1.5 rounded-lg border border-white/10 text-xs text-zinc-300 hover:bg-white/5 transition-all disabled:opacity-50"
+            >
+              <i className="fas fa-floppy-disk mr-1"></i> Save as preset
+            </button>
+            {isModified && original && (
+              <button
+                onClick={() => onChange({ ...original })}
+                disabled={disabled}
+                className="px-3 py-1.5 rounded-lg border border-white/10 text-xs text-zinc-300 hover:bg-white/5 transition-all disabled:opacity-50"
+              >
+                <i className="fas fa-rotate-left mr-1"></i> Reset
+              </button>
+            )}
+            {isCustom && (
+              <button
+                onClick={() => confirm(`Delete the "${preset.name}" preset?`) && onDeleteCustom(preset.id)}
+                disabled={disabled}
+                className="ml-auto px-3 py-1.5 rounded-lg text-xs text-zinc-500 hover:text-red-400 hover:bg-red-500/10 transition-all disabled:opacity-50"
+              >
+                <i className="fas fa-trash mr-1"></i> Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StylePresetPanel;
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ANALYSIS_MAX_ATTEMPTS, AnalysisError, analyzeWithValidation, explainAnalysisFailure, parseAnalysisJson, validateAnalysis } from './analysisValidation';
+
+const response = (scenes: unknown[]): string =>
+  JSON.stringify({ characters: [{ name: 'Ayesha', description: 'Red scarf' }], locations: [], visualStyle: 'ink', scenes });
+
+const scene = (id: string) => ({ id, originalText: `Text ${id}`, refinedPrompt: `Prompt ${id}`, presentCharacters: ['Ayesha'] });
+
+test('a complete response validates without problems', () => {
+  const result = validateAnalysis('```json\n' + response([scene('scene-1'), scene('scene-2')]) + '\n```', 2);
+  assert.deepEqual(result.problems, []);
+  assert.deepEqual(result.repairs, []);
+  assert.equal(result.truncated, false);
+  assert.deepEqual(result.analysis?.scenes.map(s => s.id), ['scene-1', 'scene-2']);
+  assert.ok(result.analysis?.characters[0].id);
+});
+
+test('small defects are repaired in place', () => {
+  const result = validateAnalysis(JSON.stringify({
+    characters: [{ name: 'Ayesha' }, { name: 'ayesha' }, { description: 'nameless' }],
+    scenes: [
+      { id: 'a', originalText: 'One' },
+      { id: 'a', refinedPrompt: 'Two', presentCharacters: [] },
+      { presentCharacters: [] },
+      'junk'
+    ]
+  }));
+  assert.deepEqual(result.problems, []);
+  assert.deepEqual(result.analysis?.scenes.map(s => [s.id, s.originalText, s.refinedPrompt]), [['a', 'One', 'One'], ['scene-2', 'Two', 'Two']]);
+  assert.deepEqual(result.analysis?.characters.map(c => c.name), ['Ayesha']);
+  assert.ok(result.repairs.includes('Scene 2 reused id "a"; renamed to "scene-2".'));
+  assert.ok(result.repairs.includes('Dropped duplicate character "ayesha".'));
+  assert.ok(result.repairs.includes('"visualStyle" was missing.'));
+  assert.ok(result.repairs.includes('"locations" was missing; using an empty location sheet.'));
+});
+
+test('a truncated response keeps its complete scenes and is reported', () => {
+  const full = response([scene('scene-1'), scene('scene-2')]);
+  const cut = full.slice(0, full.indexOf('"Prompt scene-2"') + 5);
+  assert.equal(parseAnalysisJson(cut)?.truncated, true);
+  const result = validateAnalysis(cut);
+  assert.equal(result.truncated, true);
+  assert.deepEqual(result.analysis?.scenes.map(s => s.id), ['scene-1']);
+  assert.match(result.problems[0], /cut off/);
+});
+
+test('unusable responses and scene-count mismatches are problems', () => {
+  assert.deepEqual(validateAnalysis('Sorry, I cannot help.').problems, ['The response is not valid JSON.']);
+  assert.deepEqual(validateAnalysis('[1, 2]').problems, ['The response is not valid JSON.']);
+  assert.deepEqual(validateAnalysis('{"scenes": "none"}').problems, ['"scenes" is missing or is not an array.']);
+  assert.equal(validateAnalysis('{"scenes": [{}]}').analysis, null);
+  const short = validateAnalysis(response([scene('scene-1')]), 2);
+  assert.deepEqual(short.problems, ['Expected exactly 2 scenes but got 1.']);
+  assert.ok(short.analysis);
+});
+
+test('analyzeWithValidation retries with the problems as feedback', async t => {
+  t.mock.method(console, 'warn', () => {});
+  const feedback: (string | null)[] = [];
+  const retries: number[] = [];
+  const result = await analyzeWithValidation(
+    async previous => {
+      feedback.push(previous);
+      return feedback.length === 1 ? 'not json' : response([scene('scene-1')]);
+    },
+    1,
+    attempt => retries.push(attempt)
+  );
+  assert.equal(result.scenes.length, 1);
+  assert.equal(feedback[0], null);
+  assert.match(feedback[1] ?? '', /REJECTED:\n- The response is not valid JSON\./);
+  assert.deepEqual(retries, [2]);
+});
+
+test('truncated responses are retried rather than accepted', async t => {
+  t.mock.method(console, 'warn', () => {});
+  const complete = response([scene('scene-1'), scene('scene-2')]);
+  let calls = 0;
+  const result = await analyzeWithValidation(async () => ++calls < ANALYSIS_MAX_ATTEMPTS ? complete.slice(0, -20) : complete);
+  assert.equal(calls, ANALYSIS_MAX_ATTEMPTS);
+  assert.equal(result.scenes.length, 2);
+});
+
+test('a scene-count mismatch is never accepted, even on the last attempt', async t => {
+  t.mock.method(console, 'warn', () => {});
+  let calls = 0;
+  await assert.rejects(
+    analyzeWithValidation(async () => { calls++; return response([scene('scene-1')]); }, 2),
+    (error: unknown) => {
+      assert.ok(error instanceof AnalysisError);
+      assert.deepEqual(error.problems, ['Expected exactly 2 scenes but got 1.']);
+      assert.equal(error.partial?.scenes.length, 1);
+      assert.match(explainAnalysisFailure(error, true).suggestions[0], /did not keep the imported scenes/);
+      return true;
+    }
+  );
+  assert.equal(calls, ANALYSIS_MAX_ATTEMPTS);
+});
@@ -0,0 +1,285 @@
+import { AnalysisResult, CharacterInfo, LocationInfo, SceneContinuity, ScenePrompt } from "./types";
+import { describeError, isRetryableError } from "./generationQueue";
+import { assignCharacterIds, assignLocationIds } from "./characterResolver";
+
+// Runtime checks for the model's analysis response. Small defects are repaired in place;
+// anything that would leave the storyboard unusable is reported so the call can be retried
+// with the problems spelled out.
+
+export const ANALYSIS_MAX_ATTEMPTS = 3;
+
+export interface AnalysisValidation {
+  analysis: AnalysisResult | null; // null when nothing usable came back
+  problems: string[]; // Worth another model call; sent back as feedback
+  repairs: string[]; // Fixed locally, for the console
+  truncated: boolean;
+}
+
+// Thrown when every attempt failed validation. Carries what the UI needs to explain why.
+export class AnalysisError extends Error {
+  constructor(
+    message: string,
+    readonly problems: string[],
+    readonly partial: AnalysisResult | null = null,
+    readonly rawText: string = ''
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asTextList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+// Cuts a truncated response back to its last complete object or array and closes whatever
+// is still open. Returns null when there is nothing to salvage.
+const closeTruncatedJson = (text: string): string | null => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safe: { end: number; closers: string } | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') {
+      stack.pop();
+      safe = { end: i + 1, closers: [...stack].reverse().join('') };
+    }
+  }
+  if (!safe) return null;
+  return text.slice(0, safe.end).replace(/,\s*$/, '') + safe.closers;
+};
+
+export const parseAnalysisJson = (text: string): { value: unknown; truncated: boolean } | null => {
+  const body = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  const start = body.indexOf('{');
+  if (start === -1) return null;
+  try {
+    return { value: JSON.parse(body.slice(start)), truncated: false };
+  } catch {
+    const closed = closeTruncatedJson(body.slice(start));
+    if (!closed) return null;
+    try {
+      return { value: JSON.parse(closed), truncated: true };
+    } catch {
+      return null;
+    }
+  }
+};
+
+const validateCharacters = (value: unknown, repairs: string[]): CharacterInfo[] => {
+  if (!Array.isArray(value)) {
+    repairs.push('"characters" was missing; using an empty character sheet.');
+    return [];
+  }
+  const seen = new Set<string>();
+  return assignCharacterIds(value.flatMap((entry, i) => {
+    const name = isRecord(entry) ? asText(entry.name) : '';
+    if (!name) {
+      repairs.push(`Dropped character ${i + 1}: it has no name.`);
+      return [];
+    }
+    if (seen.has(name.toLowerCase())) {
+      repairs.push(`Dropped duplicate character "${name}".`);
+      return [];
+    }
+    seen.add(name.toLowerCase());
+    const record = entry as Record<string, unknown>;
+    return [{ id: asText(record.id), name, aliases: asTextList(record.aliases), description: asText(record.description) }];
+  }));
+};
+
+const validateLocations = (value: unknown, repairs: string[]): LocationInfo[] => {
+  if (!Array.isArray(value)) {
+    repairs.push('"locations" was missing; using an empty location sheet.');
+    return [];
+  }
+  const seen = new Set<string>();
+  return assignLocationIds(value.flatMap((entry, i) => {
+    const name = isRecord(entry) ? asText(entry.name) : '';
+    if (!name) {
+      repairs.push(`Dropped location ${i + 1}: it has no name.`);
+      return [];
+    }
+    if (seen.has(name.toLowerCase())) {
+      repairs.push(`Dropped duplicate location "${name}".`);
+      return [];
+    }
+    seen.add(name.toLowerCase());
+    const record = entry as Record<string, unknown>;
+    return [{ id: asText(record.id), name, description: asText(record.description) }];
+  }));
+};
+
+// Continuity fields are all optional; blank ones are left out rather than reported
+const validateContinuity = (entry: Record<string, unknown>): SceneContinuity | undefined => {
+  const props = asTextList(entry.props);
+  const continuity: SceneContinuity = {
+    locationId: asText(entry.locationId) || undefined,
+    timeOfDay: asText(entry.timeOfDay) || undefined,
+    weather: asText(entry.weather) || undefined,
+    props: props.length > 0 ? props : undefined,
+    wardrobe: asText(entry.wardrobe) || undefined,
+    shot: asText(entry.shot) || undefined
+  };
+  return Object.values(continuity).some(v => v !== undefined) ? continuity : undefined;
+};
+
+const validateScenes = (value: unknown[], repairs: string[]): ScenePrompt[] => {
+  const usedIds = new Set<string>();
+  return value.flatMap((entry, i) => {
+    if (!isRecord(entry)) {
+      repairs.push(`Dropped scene ${i + 1}: it is not an object.`);
+      return [];
+    }
+    const originalText = asText(entry.originalText);
+    const refinedPrompt = asText(entry.refinedPrompt);
+    if (!originalText && !refinedPrompt) {
+      repairs.push(`Dropped scene ${i + 1}: it has neither "originalText" nor "refinedPrompt".`);
+      return [];
+    }
+    if (!refinedPrompt) repairs.push(`Scene ${i + 1} had no "refinedPrompt"; using its original text.`);
+    if (!Array.isArray(entry.presentCharacters)) repairs.push(`Scene ${i + 1} had no "presentCharacters" list.`);
+
+    // React keys and image storage rely on unique ids
+    let id = asText(entry.id);
+    if (!id || usedIds.has(id)) {
+      let replacement = `scene-${i + 1}`;
+      for (let k = 2; usedIds.has(replacement); k++) replacement = `scene-${i + 1}-${k}`;
+      repairs.push(id ? `Scene ${i + 1} reused id "${id}"; renamed to "${replacement}".` : `Scene ${i + 1} had no id; assigned "${replacement}".`);
+      id = replacement;
+    }
+    usedIds.add(id);
+
+    return [{
+      id,
+      originalText: originalText || refinedPrompt,
+      refinedPrompt: refinedPrompt || originalText,
+      presentCharacters: asTextList(entry.presentCharacters),
+      continuity: validateContinuity(entry),
+      status: 'pending' as const
+    }];
+  });
+};
+
+export const validateAnalysis = (text: string, expectedScenes?: number): AnalysisValidation => {
+  const repairs: string[] = [];
+  const parsed = parseAnalysisJson(text);
+  if (!parsed) {
+    return { analysis: null, problems: ['The response is not valid JSON.'], repairs, truncated: false };
+  }
+  if (!isRecord(parsed.value)) {
+    return { analysis: null, problems: ['The response must be a JSON object with "characters", "visualStyle" and "scenes".'], repairs, truncated: false };
+  }
+
+  const raw = parsed.value;
+  const problems: string[] = [];
+  if (parsed.truncated) {
+    problems.push('The response was cut off before the JSON was complete. Keep each "refinedPrompt" and description shorter so everything fits.');
+  }
+  if (!Array.isArray(raw.scenes)) {
+    problems.push('"scenes" is missing or is not an array.');
+    return { analysis: null, problems, repairs, truncated: parsed.truncated };
+  }
+
+  const scenes = validateScenes(raw.scenes, repairs);
+  if (scenes.length === 0) {
+    problems.push('"scenes" contains no usable scenes.');
+    return { analysis: null, problems, repairs, truncated: parsed.truncated };
+  }
+  if (expectedScenes !== undefined && scenes.length !== expectedScenes) {
+    problems.push(`Expected exactly ${expectedScenes} scenes but got ${scenes.length}.`);
+  }
+
+  const visualStyle = asText(raw.visualStyle);
+  if (!visualStyle) repairs.push('"visualStyle" was missing.');
+
+  return {
+    analysis: { characters: validateCharacters(raw.characters, repairs), locations: validateLocations(raw.locations, repairs), visualStyle, scenes },
+    problems,
+    repairs,
+    truncated: parsed.truncated
+  };
+};
+
+export const retryFeedback = (problems: string[]): string =>
+  `YOUR PREVIOUS RESPONSE WAS REJECTED:\n${problems.map(p => `- ${p}`).join('\n')}\nReturn the complete JSON again with these problems fixed.`;
+
+// Calls the model until its response validates. Problems from each rejected attempt are
+// passed to the next one. A result with only minor problems is accepted on the last attempt;
+// a truncated or unusable one is not, and neither is one that lost or merged pre-split scenes,
+// since every later scene would end up paired with the wrong source text.
+export const analyzeWithValidation = async (
+  request: (feedback: string | null) => Promise<string>,
+  expectedScenes?: number,
+  onRetry?: (attempt: number, problems: string[]) => void
+): Promise<AnalysisResult> => {
+  let feedback: string | null = null;
+  let last: AnalysisValidation | null = null;
+  let rawText = '';
+  for (let attempt = 1; attempt <= ANALYSIS_MAX_ATTEMPTS; attempt++) {
+    rawText = await request(feedback);
+    last = validateAnalysis(rawText, expectedScenes);
+    if (last.repairs.length > 0) console.warn('Repaired analysis response:', last.repairs);
+    if (last.analysis && last.problems.length === 0) return last.analysis;
+    const keptScenes = expectedScenes === undefined || last.analysis?.scenes.length === expectedScenes;
+    if (attempt === ANALYSIS_MAX_ATTEMPTS && last.analysis && !last.truncated && keptScenes) {
+      console.warn('Accepting analysis with problems:', last.problems);
+      return last.analysis;
+    }
+    feedback = retryFeedback(last.problems);
+    if (attempt < ANALYSIS_MAX_ATTEMPTS) onRetry?.(attempt + 1, last.problems);
+  }
+  throw new AnalysisError(
+    `The analysis response was still invalid after ${ANALYSIS_MAX_ATTEMPTS} attempts.`,
+    last?.problems ?? [],
+    last?.analysis ?? null,
+    rawText
+  );
+};
+
+export interface AnalysisFailure {
+  message: string;
+  problems: string[];
+  suggestions: string[];
+  partial: AnalysisResult | null; // Usable scenes salvaged from the last response, if any
+  rawText: string;
+}
+
+// Turns any analysis error into something the user can act on
+export const explainAnalysisFailure = (error: unknown, preSplit: boolean): AnalysisFailure => {
+  if (error instanceof AnalysisError) {
+    const suggestions: string[] = [];
+    if (error.problems.some(p => p.includes('cut off'))) {
+      suggestions.push('The script is probably too long for one request. Analyze it in parts, or import it as Fountain or Final Draft so scenes are split before analysis.');
+    }
+    if (error.problems.some(p => p.startsWith('Expected exactly'))) {
+      suggestions.push(preSplit
+        ? 'The model did not keep the imported scenes. Try again, or dismiss the imported structure to let the AI split scenes itself.'
+        : 'Try again; the scene count is checked on every attempt.');
+    }
+    if (suggestions.length === 0) suggestions.push('Try again. If it keeps failing, simplify the script or switch engines.');
+    return { message: error.message, problems: error.problems, suggestions, partial: error.partial, rawText: error.rawText };
+  }
+
+  const message = describeError(error);
+  const suggestions = isRetryableError(error)
+    ? ['The service is busy or rate-limited. Wait a minute and try again.']
+    : /api.?key|permission|unauthori[sz]ed|\b40[13]\b/i.test(message)
+      ? ['Check that a valid API key is configured for this engine.']
+      : ['Check your connection and try again, or switch to the Offline Mock engine to keep working.'];
+  return { message, problems: [], suggestions, partial: null, rawText: '' };
+};
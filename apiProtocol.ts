@@ -0,0 +1,57 @@
+import { AnalysisResult, AnalyzeOptions, ConsistencyExpectation, ProviderModels, ReferenceImage, StylePreset, UsageEntry } from "./types";
+
+// Wire format shared by server.ts and its client in geminiService.ts. Responses are
+// newline-delimited JSON: any number of progress/heartbeat/usage events, then one result or error.
+
+export const DEFAULT_SERVER_PORT = 8787;
+
+// Models the server calls; the client needs the names to estimate costs
+export const GEMINI_MODELS: ProviderModels = {
+  analyze: 'gemini-3-flash-preview',
+  image: 'gemini-2.5-flash-image',
+  check: 'gemini-3-flash-preview'
+};
+
+export interface AnalyzeRequest {
+  text: string;
+  options: Omit<AnalyzeOptions, 'onStatus'>;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  characterContext: string;
+  globalStyle: string;
+  aspectRatio: string;
+  references: ReferenceImage[];
+  style?: StylePreset;
+  setting?: string;
+}
+
+export interface EditRequest {
+  imageUrl: string;
+  instruction: string;
+  mask: string | null;
+  references: ReferenceImage[];
+  aspectRatio: string;
+}
+
+export interface CheckRequest {
+  imageUrl: string;
+  expectation: ConsistencyExpectation;
+}
+
+export interface AnalysisErrorDetails {
+  problems: string[];
+  partial: AnalysisResult | null;
+  rawText: string;
+}
+
+export type ApiEvent<T> =
+  | { type: 'progress'; message: string }
+  | { type: 'heartbeat' }
+  | { type: 'usage'; entry: UsageEntry } // One per model call, as soon as it returns
+  | { type: 'result'; data: T }
+  | { type: 'error'; status: number; message: string; analysis?: AnalysisErrorDetails };
+
+// Same shape as Gemini's own error bodies, so describeError and isRetryableError read both alike
+export const errorBody = (status: number, message: string): string => JSON.stringify({ error: { code: status, message } });
@@ -0,0 +1,34 @@
+import { CharacterInfo, LocationInfo, ReferenceImage, ScenePrompt } from "./types";
+import { resolveMentions } from "./characterResolver";
+
+// Characters from the sheet that appear in a scene. Scenes that predate id resolution fall back to their names.
+export const sceneCharacters = (characters: CharacterInfo[], scene: ScenePrompt): CharacterInfo[] => {
+  const ids = scene.characterIds ?? resolveMentions(scene.presentCharacters, characters).matches.map(m => m.id);
+  return characters.filter(c => ids.includes(c.id));
+};
+
+// KEY FIX: Only pass the descriptions of characters who are actually in this scene
+export const buildCharacterContext = (characters: CharacterInfo[], scene: ScenePrompt): string =>
+  sceneCharacters(characters, scene)
+    .map(c => `${c.name} (${c.description})`)
+    .join('; ');
+
+export const buildReferences = (characters: CharacterInfo[], scene: ScenePrompt): ReferenceImage[] =>
+  sceneCharacters(characters, scene).flatMap(c => (c.referenceImages ?? []).map(imageUrl => ({ label: c.name, imageUrl })));
+
+export const sceneLocation = (locations: LocationInfo[] | undefined, scene: ScenePrompt): LocationInfo | undefined =>
+  locations?.find(l => l.id === scene.continuity?.locationId);
+
+// Where and how the scene is staged, from the location sheet and the scene's continuity fields
+export const buildSettingContext = (locations: LocationInfo[] | undefined, scene: ScenePrompt): string => {
+  const location = sceneLocation(locations, scene);
+  const { timeOfDay, weather, props, wardrobe, shot } = scene.continuity ?? {};
+  return [
+    location ? `${location.name}${location.description ? ` (${location.description})` : ''}` : '',
+    timeOfDay ? `Time of day: ${timeOfDay}` : '',
+    weather ? `Weather: ${weather}` : '',
+    props?.length ? `Props: ${props.join(', ')}` : '',
+    wardrobe ? `Wardrobe: ${wardrobe}` : '',
+    shot ? `Shot: ${shot}` : ''
+  ].filter(Boolean).join('. ');
+};
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveAnalysis, resolveCharacter } from './characterResolver';
+import { mergeChunkResults } from './chunkedAnalysis';
+import { CharacterInfo } from './types';
+
+const ali: CharacterInfo = { id: 'char-ali', name: 'Ali', description: 'A boy of ten.' };
+const bilal: CharacterInfo = { id: 'char-bilal-khan', name: 'Bilal Khan', aliases: ['Dr. Khan'], description: 'A doctor.' };
+
+test('a short name never matches a longer one by spelling', () => {
+  assert.equal(resolveCharacter('Alia', [ali, bilal]), null);
+  assert.equal(resolveCharacter('Ali', [{ ...ali, id: 'char-alia', name: 'Alia' }]), null);
+});
+
+test('exact, alias and fuzzy tiers', () => {
+  assert.deepEqual(resolveCharacter('ali', [ali, bilal]), { mention: 'ali', id: 'char-ali', tier: 'exact' });
+  assert.deepEqual(resolveCharacter('Dr. Khan', [ali, bilal]), { mention: 'Dr. Khan', id: 'char-bilal-khan', tier: 'alias' });
+  assert.deepEqual(resolveCharacter('Bilal Kahn', [ali, bilal]), { mention: 'Bilal Kahn', id: 'char-bilal-khan', tier: 'fuzzy' });
+});
+
+test('unresolved mentions stay unresolved next to a similar short name', () => {
+  const scene = { id: 'scene-1', originalText: 'Alia waves.', refinedPrompt: 'Alia waves.', presentCharacters: ['Alia'], status: 'pending' as const };
+  const resolved = resolveAnalysis({ characters: [ali], visualStyle: '', scenes: [scene] });
+  assert.deepEqual(resolved.scenes[0].characterIds, []);
+  assert.deepEqual(resolved.scenes[0].unresolvedCharacters, ['Alia']);
+});
+
+test('chunk merging keeps Ali and Alia apart', () => {
+  const merged = mergeChunkResults([
+    { characters: [ali], visualStyle: '', scenes: [] },
+    { characters: [{ id: 'char-alia', name: 'Alia', description: 'His sister.' }], visualStyle: '', scenes: [] }
+  ]);
+  assert.deepEqual(merged.characters.map(c => c.name), ['Ali', 'Alia']);
+});
@@ -0,0 +1,163 @@
+import { AnalysisResult, CharacterInfo, LocationInfo, ScenePrompt } from "./types";
+
+// Maps the names a scene mentions ("Dr. Khan", "Bilal", "char-bilal-khan") onto characters
+// from the sheet. Tiers are tried in order and a tier only counts when it picks exactly one
+// character, so "Ali" never lands on "Alia" and an ambiguous "Khan" stays unresolved.
+
+export type ResolveTier = 'exact' | 'alias' | 'fuzzy';
+
+export interface CharacterMatch {
+  mention: string;
+  id: string;
+  tier: ResolveTier;
+}
+
+const TITLES = new Set([
+  'dr', 'doctor', 'mr', 'mrs', 'ms', 'miss', 'mx', 'prof', 'professor', 'sir', 'dame', 'lady', 'lord',
+  'capt', 'captain', 'det', 'detective', 'officer', 'sgt', 'sergeant', 'agent', 'aunt', 'auntie', 'uncle'
+]);
+
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const withoutTitles = (normalized: string): string[] => {
+  const tokens = normalized.split(' ').filter(Boolean);
+  let start = 0;
+  while (start < tokens.length - 1 && TITLES.has(tokens[start])) start++;
+  return tokens.slice(start);
+};
+
+const namesOf = (character: CharacterInfo): string[] =>
+  [character.name, ...(character.aliases ?? [])].map(normalizeName).filter(Boolean);
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short names only tolerate exact matches; a typo in "Ali" is just another name. The tolerance
+// follows the shorter of the two names, so "Alia" doesn't land on "Ali" and "Ali" doesn't land on "Alia".
+const fuzzyTolerance = (a: string, b: string): number => {
+  const length = Math.min(a.length, b.length);
+  return length >= 8 ? 2 : length >= 4 ? 1 : 0;
+};
+
+const only = (candidates: CharacterInfo[]): CharacterInfo | null => {
+  const unique = [...new Set(candidates)];
+  return unique.length === 1 ? unique[0] : null;
+};
+
+export const resolveCharacter = (mention: string, characters: CharacterInfo[]): CharacterMatch | null => {
+  const normalized = normalizeName(mention);
+  if (!normalized) return null;
+
+  const exact = only(characters.filter(c => c.id === mention.trim() || normalizeName(c.name) === normalized));
+  if (exact) return { mention, id: exact.id, tier: 'exact' };
+
+  // Aliases, titles dropped ("Dr. Khan" -> "Khan"), and whole-word parts of a name ("Khan" in "Bilal Khan")
+  const tokens = withoutTitles(normalized);
+  const alias = only(characters.filter(c => namesOf(c).some(name => {
+    const nameTokens = withoutTitles(name);
+    return name === normalized
+      || nameTokens.join(' ') === tokens.join(' ')
+      || tokens.every(t => nameTokens.includes(t));
+  })));
+  if (alias) return { mention, id: alias.id, tier: 'alias' };
+
+  // Edit distance to one of the names, or Infinity when it is beyond the tolerance
+  const withinTolerance = (name: string): number => {
+    const distance = editDistance(name, normalized);
+    return distance <= fuzzyTolerance(name, normalized) ? distance : Infinity;
+  };
+  const scored = characters
+    .map(c => ({ character: c, distance: Math.min(...namesOf(c).map(withinTolerance)) }))
+    .filter(s => s.distance !== Infinity)
+    .sort((a, b) => a.distance - b.distance);
+  if (scored.length === 0 || (scored.length > 1 && scored[1].distance === scored[0].distance)) return null;
+  return { mention, id: scored[0].character.id, tier: 'fuzzy' };
+};
+
+export const resolveMentions = (mentions: string[], characters: CharacterInfo[]): { matches: CharacterMatch[]; unresolved: string[] } => {
+  const matches: CharacterMatch[] = [];
+  const unresolved: string[] = [];
+  for (const mention of mentions) {
+    const match = resolveCharacter(mention, characters);
+    if (match) matches.push(match);
+    else if (mention.trim()) unresolved.push(mention.trim());
+  }
+  return { matches, unresolved: [...new Set(unresolved)] };
+};
+
+const slug = (name: string, fallback: string): string => normalizeName(name).replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || fallback;
+
+// Gives every entry a unique, stable id built from its name; existing ids are kept
+const assignIds = <T extends { id: string; name: string }>(items: T[], prefix: string, fallback: string): T[] => {
+  const used = new Set<string>();
+  return items.map(item => {
+    let id = item.id?.trim();
+    if (!id || used.has(id)) {
+      const base = `${prefix}-${slug(item.name, fallback)}`;
+      id = base;
+      for (let k = 2; used.has(id); k++) id = `${base}-${k}`;
+    }
+    used.add(id);
+    return id === item.id ? item : { ...item, id };
+  });
+};
+
+export const assignCharacterIds = (characters: CharacterInfo[]): CharacterInfo[] => assignIds(characters, 'char', 'character');
+
+export const assignLocationIds = (locations: LocationInfo[]): LocationInfo[] => assignIds(locations, 'loc', 'location');
+
+// Locations are named once per script and rarely nicknamed, so an id or exact name is enough
+export const resolveLocation = (mention: string, locations: LocationInfo[]): LocationInfo | undefined => {
+  const normalized = normalizeName(mention);
+  if (!normalized) return undefined;
+  return locations.find(l => l.id === mention.trim()) ?? locations.find(l => normalizeName(l.name) === normalized);
+};
+
+// Points the scene's continuity at a location on the sheet, or drops a location that isn't there
+const resolveSceneLocation = (scene: ScenePrompt, locations: LocationInfo[]): ScenePrompt['continuity'] => {
+  const mention = scene.continuity?.locationId;
+  if (!mention) return scene.continuity;
+  return { ...scene.continuity, locationId: resolveLocation(mention, locations)?.id };
+};
+
+// Brings scene casts in line with the character sheet. Scenes without ids yet are resolved from
+// their names; scenes with ids only retry their unresolved mentions (e.g. after an alias was added).
+// Scene locations are matched against the location sheet the same way. Safe to run repeatedly.
+export const resolveAnalysis = (analysis: AnalysisResult): AnalysisResult => {
+  const characters = assignCharacterIds(analysis.characters);
+  const locations = assignLocationIds(analysis.locations ?? []);
+  const byId = new Map(characters.map(c => [c.id, c]));
+  return {
+    ...analysis,
+    characters,
+    locations,
+    scenes: analysis.scenes.map(scene => {
+      const known = scene.characterIds?.filter(id => byId.has(id));
+      const { matches, unresolved } = resolveMentions(known ? scene.unresolvedCharacters ?? [] : scene.presentCharacters, characters);
+      const characterIds = [...new Set([...(known ?? []), ...matches.map(m => m.id)])];
+      return {
+        ...scene,
+        continuity: resolveSceneLocation(scene, locations),
+        characterIds,
+        presentCharacters: characterIds.map(id => byId.get(id)!.name),
+        unresolvedCharacters: unresolved.length > 0 ? unresolved : undefined
+      };
+    })
+  };
+};
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeInChunks, combineDescriptions, mergeChunkResults, splitIntoChunks } from './chunkedAnalysis';
+import { AnalysisError } from './analysisValidation';
+import { mockProvider } from './mockService';
+import { AnalysisResult, AnalyzeOptions, SourceScene, VisionProvider } from './types';
+
+test('screenplays split at sluglines, with the end of the previous part as context', () => {
+  const script = ['INT. KITCHEN - NIGHT', 'EXT. HARBOUR - DAWN', 'INT. CAR - DAY']
+    .map(heading => `${heading}\n\n${'Waves roll in. '.repeat(6).trim()}`)
+    .join('\n\n');
+  const chunks = splitIntoChunks(script, { maxChars: 200, overlapChars: 40 });
+  assert.deepEqual(chunks.map(c => c.text.split('\n')[0]), ['INT. KITCHEN - NIGHT', 'EXT. HARBOUR - DAWN', 'INT. CAR - DAY']);
+  assert.equal(chunks[0].context, '');
+  assert.ok(chunks[1].context.length <= 40);
+  assert.ok(chunks[0].text.endsWith(chunks[1].context));
+});
+
+test('an oversized paragraph falls back to sentences', () => {
+  const chunks = splitIntoChunks('One sentence here. Another one there! A third? ', { maxChars: 25, overlapChars: 0 });
+  assert.deepEqual(chunks.map(c => c.text), ['One sentence here.', 'Another one there!', 'A third?']);
+});
+
+test('descriptions from later parts only add new sentences', () => {
+  assert.equal(combineDescriptions('Tall. Red scarf.', 'red scarf. Walks with a cane.'), 'Tall. Red scarf. Walks with a cane.');
+});
+
+test('merged parts share one character and location sheet and renumber scenes', () => {
+  const merged = mergeChunkResults([
+    {
+      characters: [{ id: 'char-1', name: 'Ayesha', description: 'Tall.' }],
+      locations: [{ id: 'loc-1', name: 'Kitchen', description: 'Green tiles.' }],
+      visualStyle: 'ink',
+      scenes: [{ id: 'scene-1', originalText: 'A', refinedPrompt: 'A', presentCharacters: ['char-1'], continuity: { locationId: 'loc-1' }, status: 'pending' }]
+    },
+    {
+      characters: [{ id: 'char-1', name: 'Bilal', description: 'Short.' }, { id: 'char-2', name: 'Ayesha', aliases: ['Ash'], description: 'Red scarf.' }],
+      locations: [{ id: 'loc-1', name: 'Kitchen', description: 'Dim.' }],
+      visualStyle: '',
+      scenes: [{ id: 'scene-1', originalText: 'B', refinedPrompt: 'B', presentCharacters: ['char-1', 'char-2'], continuity: { locationId: 'loc-1' }, status: 'pending' }]
+    }
+  ]);
+  assert.deepEqual(merged.characters.map(c => [c.id, c.name]), [['char-1', 'Ayesha'], ['char-1-2', 'Bilal']]);
+  assert.equal(merged.characters[0].description, 'Tall. Red scarf.');
+  assert.deepEqual(merged.characters[0].aliases, ['Ash']);
+  assert.deepEqual(merged.locations?.map(l => l.description), ['Green tiles. Dim.']);
+  assert.deepEqual(merged.scenes.map(s => [s.id, s.presentCharacters, s.continuity?.locationId]), [
+    ['scene-1', ['char-1'], 'loc-1'],
+    ['scene-2', ['char-1-2', 'char-1'], 'loc-1']
+  ]);
+  assert.equal(merged.visualStyle, 'ink');
+});
+
+// Answers every part with one scene per source scene, and fails the second part after salvaging its first scene
+const failingProvider = (): VisionProvider => {
+  let call = 0;
+  return {
+    ...mockProvider,
+    analyzeScript: async (_text: string, options?: AnalyzeOptions): Promise<AnalysisResult> => {
+      call++;
+      const result: AnalysisResult = {
+        characters: [],
+        visualStyle: 'ink',
+        scenes: (options?.scenes ?? []).map((scene, j) => ({ id: `scene-${j + 1}`, originalText: scene.text, refinedPrompt: `Part ${call} scene ${j + 1}`, presentCharacters: [], status: 'pending' }))
+      };
+      if (call === 2) throw new AnalysisError('Cut off', ['cut off'], { ...result, scenes: result.scenes.slice(0, 1) }, '{');
+      return result;
+    }
+  };
+};
+
+test('a failed part keeps the earlier parts and fills out its own source scenes', async () => {
+  const sources: SourceScene[] = Array.from({ length: 6 }, (_, i) => ({ text: `Scene ${i + 1} text. `.repeat(5), characters: [] }));
+  await assert.rejects(
+    analyzeInChunks(failingProvider(), '', { scenes: sources }, undefined, { maxChars: 250, overlapChars: 0 }),
+    (error: unknown) => {
+      assert.ok(error instanceof AnalysisError);
+      assert.match(error.message, /^Part 2 of 2: Cut off$/);
+      assert.deepEqual(error.partial?.scenes.map(s => [s.id, s.refinedPrompt]), [
+        ['scene-1', 'Part 1 scene 1'],
+        ['scene-2', 'Part 1 scene 2'],
+        ['scene-3', 'Part 1 scene 3'],
+        ['scene-4', 'Part 2 scene 1'],
+        ['scene-5', sources[4].text],
+        ['scene-6', sources[5].text]
+      ]);
+      return true;
+    }
+  );
+});
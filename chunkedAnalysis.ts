@@ -0,0 +1,210 @@
+import { AnalysisResult, AnalyzeOptions, CharacterInfo, LocationInfo, ScenePrompt, SourceScene, VisionProvider } from "./types";
+import { resolveCharacter, resolveLocation } from "./characterResolver";
+import { alignToSourceScenes, hasSluglines } from "./scriptImporters";
+import { AnalysisError } from "./analysisValidation";
+
+// Long scripts are analyzed in parts so no single response runs into the model's output limit.
+// Parts break at scene (or paragraph) boundaries; each part also sees the end of the previous
+// one as read-only context, and the character and location sheets found so far so ids stay the same.
+
+export interface ChunkOptions {
+  maxChars: number;
+  overlapChars: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxChars: 12000,
+  overlapChars: 1200
+};
+
+export interface ScriptChunk {
+  text: string;
+  context: string; // Tail of the previous chunk; empty for the first
+  scenes?: SourceScene[]; // Set when the source was already split into scenes
+}
+
+export interface AnalysisProgress {
+  current: number; // Chunks finished
+  total: number;
+}
+
+// Scene headings when the text is a screenplay, paragraphs otherwise; oversized units fall back to sentences
+const splitUnits = (text: string, maxChars: number): string[] => {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  const units = hasSluglines(normalized, 2)
+    ? normalized.split(/\n(?=\s*(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s])/i)
+    : normalized.split(/\n\s*\n/);
+  return units
+    .map(u => u.trim())
+    .filter(Boolean)
+    .flatMap(unit => unit.length <= maxChars ? [unit] : unit.match(/[^.!?]+[.!?]*\s*/g)?.map(s => s.trim()).filter(Boolean) ?? [unit]);
+};
+
+const groupUnits = <T>(units: T[], size: (unit: T) => number, maxChars: number): T[][] => {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let length = 0;
+  for (const unit of units) {
+    if (current.length > 0 && length + size(unit) > maxChars) {
+      groups.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(unit);
+    length += size(unit);
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+};
+
+// The last paragraphs of a chunk, up to the overlap budget, cut at a word boundary
+const tail = (text: string, overlapChars: number): string => {
+  if (text.length <= overlapChars) return text;
+  const cut = text.slice(-overlapChars);
+  const paragraph = cut.indexOf('\n\n');
+  return (paragraph !== -1 ? cut.slice(paragraph) : cut.slice(cut.indexOf(' ') + 1)).trim();
+};
+
+export const splitIntoChunks = (text: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): ScriptChunk[] => {
+  const groups = groupUnits(splitUnits(text, options.maxChars), u => u.length + 2, options.maxChars);
+  const texts = groups.map(g => g.join('\n\n'));
+  return texts.map((chunk, i) => ({ text: chunk, context: i > 0 ? tail(texts[i - 1], options.overlapChars) : '' }));
+};
+
+export const chunkSourceScenes = (scenes: SourceScene[], options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): ScriptChunk[] => {
+  const groups = groupUnits(scenes, s => s.text.length + 2, options.maxChars);
+  return groups.map((group, i) => ({
+    text: group.map(s => s.text).join('\n\n'),
+    context: i > 0 ? tail(groups[i - 1].map(s => s.text).join('\n\n'), options.overlapChars) : '',
+    scenes: group
+  }));
+};
+
+const sentences = (text: string): string[] => text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+
+// Keeps the first description and appends sentences the later one adds
+export const combineDescriptions = (first: string, second: string): string => {
+  const seen = new Set(sentences(first).map(s => s.toLowerCase()));
+  const extra = sentences(second).filter(s => !seen.has(s.toLowerCase()));
+  return [first.trim(), ...extra].filter(Boolean).join(' ');
+};
+
+// Folds one chunk's characters into the merged sheet. Returns the sheet and how chunk ids map onto it.
+const mergeCharacters = (merged: CharacterInfo[], incoming: CharacterInfo[]): { characters: CharacterInfo[]; idMap: Map<string, string> } => {
+  const characters = [...merged];
+  const idMap = new Map<string, string>();
+  for (const character of incoming) {
+    const match = [character.name, ...(character.aliases ?? [])]
+      .map(name => resolveCharacter(name, characters))
+      .find(Boolean);
+    const index = match ? characters.findIndex(c => c.id === match.id) : -1;
+    if (index !== -1) {
+      const existing = characters[index];
+      const names = [...(existing.aliases ?? []), ...(character.aliases ?? []), character.name]
+        .filter(n => n.toLowerCase() !== existing.name.toLowerCase());
+      characters[index] = {
+        ...existing,
+        aliases: [...new Map(names.map(n => [n.toLowerCase(), n])).values()],
+        description: combineDescriptions(existing.description, character.description)
+      };
+      idMap.set(character.id, existing.id);
+    } else {
+      let id = character.id || `char-${characters.length + 1}`;
+      for (let k = 2; characters.some(c => c.id === id); k++) id = `${character.id || 'char'}-${k}`;
+      characters.push({ ...character, id });
+      idMap.set(character.id, id);
+    }
+  }
+  return { characters, idMap };
+};
+
+// Same for locations, matched by name; ids restart in every chunk so they can't be trusted across chunks
+const mergeLocations = (merged: LocationInfo[], incoming: LocationInfo[]): { locations: LocationInfo[]; idMap: Map<string, string> } => {
+  const locations = [...merged];
+  const idMap = new Map<string, string>();
+  for (const location of incoming) {
+    const match = resolveLocation(location.name, locations);
+    const index = match ? locations.findIndex(l => l.id === match.id) : -1;
+    if (index !== -1) {
+      locations[index] = { ...locations[index], description: combineDescriptions(locations[index].description, location.description) };
+      idMap.set(location.id, locations[index].id);
+    } else {
+      let id = location.id || `loc-${locations.length + 1}`;
+      for (let k = 2; locations.some(l => l.id === id); k++) id = `${location.id || 'loc'}-${k}`;
+      locations.push({ ...location, id });
+      idMap.set(location.id, id);
+    }
+  }
+  return { locations, idMap };
+};
+
+export const mergeChunkResults = (results: AnalysisResult[]): AnalysisResult => {
+  let characters: CharacterInfo[] = [];
+  let locations: LocationInfo[] = [];
+  const scenes: ScenePrompt[] = [];
+  for (const result of results) {
+    const merged = mergeCharacters(characters, result.characters);
+    const mergedLocations = mergeLocations(locations, result.locations ?? []);
+    characters = merged.characters;
+    locations = mergedLocations.locations;
+    for (const scene of result.scenes) {
+      const locationId = scene.continuity?.locationId;
+      scenes.push({
+        ...scene,
+        // Scene ids restart in every chunk; number them across the whole script
+        id: `scene-${scenes.length + 1}`,
+        presentCharacters: scene.presentCharacters.map(mention => merged.idMap.get(mention) ?? mention),
+        continuity: locationId ? { ...scene.continuity, locationId: mergedLocations.idMap.get(locationId) ?? locationId } : scene.continuity
+      });
+    }
+  }
+  return {
+    characters,
+    locations,
+    visualStyle: results.find(r => r.visualStyle)?.visualStyle ?? '',
+    scenes
+  };
+};
+
+// Analyzes the script in one call when it fits, otherwise chunk by chunk, in order
+export const analyzeInChunks = async (
+  provider: VisionProvider,
+  text: string,
+  options: AnalyzeOptions = {},
+  onProgress?: (progress: AnalysisProgress) => void,
+  chunkOptions: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): Promise<AnalysisResult> => {
+  const chunks = options.scenes ? chunkSourceScenes(options.scenes, chunkOptions) : splitIntoChunks(text, chunkOptions);
+  onProgress?.({ current: 0, total: chunks.length });
+  if (chunks.length <= 1) {
+    const result = await provider.analyzeScript(text, options);
+    onProgress?.({ current: 1, total: 1 });
+    return result;
+  }
+
+  const results: AnalysisResult[] = [];
+  for (const [i, chunk] of chunks.entries()) {
+    const known = mergeChunkResults(results);
+    try {
+      results.push(await provider.analyzeScript(chunk.text, {
+        ...options,
+        scenes: chunk.scenes,
+        context: chunk.context,
+        knownCharacters: known.characters,
+        knownLocations: known.locations
+      }));
+    } catch (error) {
+      // The partial result covers the parts that went through plus what this one salvaged, so scene
+      // numbers (and the mapping onto pre-split source scenes) still start at the top of the script
+      if (error instanceof AnalysisError && i > 0) {
+        // A pre-split part is filled out to its source scenes, so the scene numbers stay exact
+        const salvaged = error.partial && chunk.scenes ? alignToSourceScenes(error.partial, chunk.scenes) : error.partial;
+        const partial = mergeChunkResults(salvaged ? [...results, salvaged] : results);
+        throw new AnalysisError(`Part ${i + 1} of ${chunks.length}: ${error.message}`, error.problems, partial, error.rawText);
+      }
+      throw error;
+    }
+    onProgress?.({ current: i + 1, total: chunks.length });
+  }
+  return mergeChunkResults(results);
+};
@@ -0,0 +1,340 @@
+// Headless batch runner on top of pipeline.ts.
+//
+//   npm run visionbulk -- run script.txt --aspect 9:16 --out ./frames
+//
+// Writes one image per scene plus manifest.json/csv into --out. Progress is saved after every
+// scene, so running the same command again resumes where the last run stopped. Model usage is
+// kept in the same file, so the cost reported at the end covers every run into that directory.
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { loadEnv } from 'vite';
+import { cliEnv } from './envConfig';
+import { AnalysisResult, ImportedScript, ScenePrompt, SceneTake, UsageEntry } from './types';
+
+const RUN_STATE_FILE = '.visionbulk-run.json';
+const RUN_STATE_VERSION = 1;
+
+const USAGE = `Usage: visionbulk run <script> [options]
+
+Scripts: .txt, .fountain, .fdx, .srt, .vtt, .docx
+
+Options:
+  --aspect <ratio>       16:9, 9:16, 1:1, 4:3 or 3:4 (default 16:9)
+  --out <dir>            Output directory (default ./frames)
+  --provider <id>        gemini (through the server, see npm run server) or mock
+                         (default from VISIONBULK_PROVIDER)
+  --style <preset>       photoreal, anime, watercolor, pencil-storyboard, 3d-render
+  --native-prompts       For scripts not in English: write prompts and descriptions in
+                         the script's language instead of English
+  --variations <n>       Takes per scene, 1-4 (default 1)
+  --concurrency <n>      Parallel image requests
+  --rpm <n>              Requests per minute
+  --fresh                Ignore saved progress and start over
+  --force                Skip cached images and generate every scene anew
+  --cache-dir <dir>      Image cache directory (default ./.visionbulk-cache)
+  --cache-mb <n>         Image cache size limit in MB (default 500)
+  --no-cache             Neither read nor write the image cache
+  --qa                   Check each image against the scene and character sheet
+  --qa-threshold <n>     Minimum consistency score, 0-100 (default 70)
+  --qa-retries <n>       Regenerations for an image below the minimum (default 2)
+  --budget <usd>         Stop before an image or check request that would take this
+                         run's generation over the amount; run again with a higher
+                         budget to carry on. Prices come from VISIONBULK_PRICES
+  -h, --help             Show this help`;
+
+// Same variables, from the same .env files, as the web app
+const mode = process.env.NODE_ENV ?? 'development';
+for (const [key, value] of Object.entries(cliEnv(loadEnv(mode, process.cwd(), '')))) {
+  if (value !== undefined && process.env[key] === undefined) process.env[key] = value;
+}
+
+// Loaded after the environment is set, since providers read it at import time
+const { defaultProviderId, getProvider, isProviderId } = await import('./providers');
+const { analyzeStep, applySceneChange, createGenerationRun, estimateGenerationCost, remainingScenes } = await import('./pipeline');
+const { buildManifest, DEFAULT_EXPORT_OPTIONS, manifestToCsv, sceneFileName } = await import('./exporters');
+const { detectFormat, extractDocxText, importDocxText, importScriptText } = await import('./scriptImporters');
+const { findStylePreset, DEFAULT_STYLE_PRESET } = await import('./stylePresets');
+const { DEFAULT_QUEUE_OPTIONS } = await import('./generationQueue');
+const { explainAnalysisFailure } = await import('./analysisValidation');
+const { parseDataUrl } = await import('./imageUtils');
+const { createDiskImageCache, DEFAULT_CACHE_DIR } = await import('./diskImageCache');
+const { DEFAULT_CACHE_MAX_BYTES } = await import('./imageCache');
+const { buildQaReport, DEFAULT_QA_OPTIONS, hasQaResults, isFlagged, qaReportToMarkdown } = await import('./consistencyCheck');
+const { formatCost, formatTokens, loadPriceTable, onUsage, sumUsage } = await import('./usage');
+const { describeLanguage, isEnglish } = await import('./scriptLanguage');
+
+// Scenes as saved: take metadata (prompts, QA reports) without the image data
+type StoredScene = Omit<ScenePrompt, 'imageUrl' | 'takes'> & { takes?: Omit<SceneTake, 'imageUrl'>[] };
+
+interface RunState {
+  format: 'visionbulk-run';
+  version: number;
+  inputText: string;
+  aspectRatio: string;
+  styleId: string;
+  analysis: Omit<AnalysisResult, 'scenes'> & { scenes: StoredScene[] }; // Images live next to the state file
+  files: Record<string, string>; // Scene id -> image file name
+  usage?: UsageEntry[]; // Every model call made for this directory, across runs
+}
+
+const MIME_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.webp': 'image/webp' };
+
+const fail = (message: string): never => {
+  console.error(`visionbulk: ${message}`);
+  process.exit(1);
+};
+
+const wholeNumber = (value: string | undefined, name: string, fallback: number, max: number): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 && n <= max ? n : fail(`--${name} must be a whole number from 0 to ${max}`);
+};
+
+const positiveInt = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fail(`--${name} must be a positive whole number`);
+};
+
+const dollars = (value: string | undefined, name: string): number | null => {
+  if (value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : fail(`--${name} must be an amount in US dollars, e.g. 2.50`);
+};
+
+const readScript = async (file: string): Promise<ImportedScript> => {
+  const data = await readFile(file);
+  return detectFormat(file) === 'docx'
+    ? importDocxText(await extractDocxText(data))
+    : importScriptText(path.basename(file), data.toString('utf8'));
+};
+
+const loadState = async (outDir: string): Promise<RunState | null> => {
+  const file = path.join(outDir, RUN_STATE_FILE);
+  if (!existsSync(file)) return null;
+  try {
+    const state = JSON.parse(await readFile(file, 'utf8')) as RunState;
+    return state.format === 'visionbulk-run' && state.version === RUN_STATE_VERSION ? state : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveState = (outDir: string, state: Omit<RunState, 'analysis'> & { analysis: AnalysisResult }): Promise<void> => {
+  const scenes = state.analysis.scenes.map(({ imageUrl, takes, ...scene }): StoredScene => ({
+    ...scene,
+    ...(takes ? { takes: takes.map(({ imageUrl: _, ...take }) => take) } : {})
+  }));
+  const stored: RunState = { ...state, analysis: { ...state.analysis, scenes } };
+  return writeFile(path.join(outDir, RUN_STATE_FILE), JSON.stringify(stored, null, 2));
+};
+
+// Completed scenes get their image back from disk; a deleted image is simply generated again.
+// Only the selected take's image is on disk, so that is the take that comes back, QA report and all.
+const rehydrate = async (outDir: string, state: RunState): Promise<AnalysisResult> => ({
+  ...state.analysis,
+  scenes: await Promise.all(state.analysis.scenes.map(async ({ takes, selectedTakeId, ...scene }): Promise<ScenePrompt> => {
+    const file = state.files[scene.id];
+    const full = file && path.join(outDir, file);
+    if (scene.status !== 'completed' || !full || !existsSync(full)) {
+      return { ...scene, status: scene.status === 'error' ? 'error' : 'pending' };
+    }
+    const mime = MIME_TYPES[path.extname(file)] ?? 'image/png';
+    const imageUrl = `data:${mime};base64,${(await readFile(full)).toString('base64')}`;
+    const selected = takes?.find(take => take.id === selectedTakeId);
+    return selected
+      ? { ...scene, imageUrl, takes: [{ ...selected, imageUrl }], selectedTakeId: selected.id }
+      : { ...scene, imageUrl };
+  }))
+});
+
+const run = async (scriptPath: string, values: Record<string, string | boolean | undefined>) => {
+  const aspectRatio = (values.aspect as string | undefined) ?? '16:9';
+  const outDir = path.resolve((values.out as string | undefined) ?? './frames');
+  const providerId = (values.provider as string | undefined) ?? defaultProviderId;
+  if (!isProviderId(providerId)) return fail(`unknown provider "${providerId}"`);
+  const style = values.style ? findStylePreset(values.style as string) ?? fail(`unknown style preset "${values.style}"`) : DEFAULT_STYLE_PRESET;
+  if (!existsSync(scriptPath)) return fail(`script not found: ${scriptPath}`);
+
+  const provider = getProvider(providerId);
+  const qa = {
+    enabled: !!values.qa,
+    threshold: wholeNumber(values['qa-threshold'] as string | undefined, 'qa-threshold', DEFAULT_QA_OPTIONS.threshold, 100),
+    maxRegenerations: wholeNumber(values['qa-retries'] as string | undefined, 'qa-retries', DEFAULT_QA_OPTIONS.maxRegenerations, 5)
+  };
+  const budgetCap = dollars(values.budget as string | undefined, 'budget');
+  const prices = loadPriceTable(process.env.VISIONBULK_PRICES);
+  const source = await readScript(scriptPath);
+  await mkdir(outDir, { recursive: true });
+
+  const saved = await loadState(outDir);
+  let state = values.fresh ? null : saved;
+  // Starting over discards the scenes, not what was already spent
+  const usage: UsageEntry[] = [...(saved?.usage ?? [])];
+  const spentBefore = usage.length;
+  onUsage(entry => usage.push(entry));
+  if (state && (state.inputText !== source.text || state.aspectRatio !== aspectRatio || state.styleId !== style.id)) {
+    console.log('Script, aspect ratio or style changed since the last run; starting over.');
+    state = null;
+  }
+
+  let analysis: AnalysisResult;
+  if (state) {
+    analysis = await rehydrate(outDir, state);
+    const done = analysis.scenes.length - remainingScenes(analysis).length;
+    console.log(`Resuming: ${done} of ${analysis.scenes.length} scenes already done.`);
+  } else {
+    console.log(`Analyzing ${path.basename(scriptPath)} with ${provider.label}...`);
+    try {
+      analysis = await analyzeStep(provider, source.text, {
+        source: source.scenes ? source : null,
+        style,
+        translatePrompts: !values['native-prompts'],
+        onProgress: ({ current, total }) => { if (total > 1 && current < total) console.log(`  part ${current + 1} of ${total}`); },
+        onStatus: message => console.log(`  ${message}`)
+      });
+    } catch (err) {
+      const failure = explainAnalysisFailure(err, !!source.scenes);
+      console.error(`Analysis failed: ${failure.message}`);
+      failure.problems.forEach(p => console.error(`  - ${p}`));
+      failure.suggestions.forEach(s => console.error(`  > ${s}`));
+      process.exit(1);
+    }
+    console.log(`Found ${analysis.characters.length} characters, ${analysis.locations?.length ?? 0} locations and ${analysis.scenes.length} scenes.`);
+    if (!isEnglish(analysis.language)) {
+      console.log(`Language: ${describeLanguage(analysis.language!)}; ${values['native-prompts'] ? 'prompts in the same language' : 'prompts in English, scene text as written'}.`);
+    }
+  }
+
+  const files: Record<string, string> = { ...(state?.files ?? {}) };
+  const persist = () => saveState(outDir, { format: 'visionbulk-run', version: RUN_STATE_VERSION, inputText: source.text, aspectRatio, styleId: style.id, analysis, files, usage });
+  await persist();
+
+  // Writes are chained so state and images never interleave
+  let writes = Promise.resolve();
+  const onSceneChange = (sceneId: string, update: (scene: ScenePrompt) => Partial<ScenePrompt>) => {
+    const before = analysis.scenes.find(s => s.id === sceneId);
+    analysis = applySceneChange(analysis, sceneId, update);
+    const index = analysis.scenes.findIndex(s => s.id === sceneId);
+    const scene = analysis.scenes[index];
+    if (!scene || (scene.status === before?.status && scene.imageUrl === before?.imageUrl)) return;
+    if (scene.status === 'completed' && scene.imageUrl) {
+      const file = sceneFileName(scene, index);
+      files[sceneId] = file;
+      writes = writes.then(() => writeFile(path.join(outDir, file), Buffer.from(parseDataUrl(scene.imageUrl!).data, 'base64')));
+      const take = scene.takes?.find(t => t.id === scene.selectedTakeId);
+      const check = take?.qa ? ` [QA ${take.qa.score}${isFlagged(take.qa, qa.threshold) ? `, FLAGGED: ${take.qa.reasons[0] ?? 'below threshold'}` : ''}]` : '';
+      console.log(`  scene ${index + 1} -> ${file}${take?.cached ? ' (cached)' : ''}${check}${scene.error ? ` (kept previous take: ${scene.error})` : ''}`);
+    } else if (scene.status === 'error') {
+      console.log(`  scene ${index + 1} failed: ${scene.error}`);
+    }
+    writes = writes.then(persist);
+  };
+
+  const remaining = remainingScenes(analysis);
+  if (remaining.length > 0) {
+    const config = {
+      provider,
+      analysis,
+      scenes: remaining,
+      aspectRatio,
+      style,
+      cache: values['no-cache'] ? null : createDiskImageCache(
+        path.resolve((values['cache-dir'] as string | undefined) ?? DEFAULT_CACHE_DIR),
+        positiveInt(values['cache-mb'] as string | undefined, 'cache-mb', DEFAULT_CACHE_MAX_BYTES / (1024 * 1024)) * 1024 * 1024
+      ),
+      forceRegenerate: !!values.force,
+      qa,
+      variations: Math.min(4, positiveInt(values.variations as string | undefined, 'variations', 1)),
+      queueOptions: {
+        ...DEFAULT_QUEUE_OPTIONS,
+        concurrency: positiveInt(values.concurrency as string | undefined, 'concurrency', DEFAULT_QUEUE_OPTIONS.concurrency),
+        requestsPerMinute: positiveInt(values.rpm as string | undefined, 'rpm', DEFAULT_QUEUE_OPTIONS.requestsPerMinute)
+      },
+      prices,
+      budgetCap
+    };
+    const estimate = await estimateGenerationCost(config);
+    console.log(`Estimated cost: ${formatCost(estimate.expected)}${estimate.max > estimate.expected ? ` (up to ${formatCost(estimate.max)} with QA retries)` : ''} for ${estimate.images} ${estimate.images === 1 ? 'image' : 'images'}${estimate.cached > 0 ? `, ${estimate.cached} cached` : ''}.`);
+    if (budgetCap !== null && estimate.expected > budgetCap) {
+      console.log(`The estimate is over the ${formatCost(budgetCap)} budget; the run will stop when it reaches it.`);
+    }
+
+    const generation = createGenerationRun(config, {
+      onSceneChange,
+      // No one is there to raise the cap, so stop; the next run starts with a fresh budget
+      onBudgetReached: (spent, cap) => {
+        console.log(`Budget of ${formatCost(cap)} reached (${formatCost(spent)} spent); stopping after the requests in flight.`);
+        generation.queue.cancel();
+      }
+    });
+
+    // First Ctrl+C lets running requests finish and saves progress; the second quits immediately
+    process.once('SIGINT', () => {
+      console.log('\nStopping after the requests in flight. Press Ctrl+C again to quit now.');
+      generation.queue.cancel();
+      process.once('SIGINT', () => process.exit(130));
+    });
+
+    console.log(`Generating ${remaining.length} ${remaining.length === 1 ? 'scene' : 'scenes'} into ${outDir}`);
+    await generation.run();
+    await writes;
+  }
+  await persist();
+
+  const projectName = path.basename(scriptPath, path.extname(scriptPath));
+  const manifest = buildManifest(analysis, { ...DEFAULT_EXPORT_OPTIONS, projectName, aspectRatio, qaThreshold: qa.threshold });
+  await writeFile(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  await writeFile(path.join(outDir, 'manifest.csv'), manifestToCsv(manifest));
+  if (hasQaResults(analysis)) {
+    const report = buildQaReport(analysis, qa.threshold);
+    await writeFile(path.join(outDir, 'qa-report.json'), JSON.stringify(report, null, 2));
+    await writeFile(path.join(outDir, 'qa-report.md'), qaReportToMarkdown(report, projectName));
+    console.log(`Consistency: ${report.passed} passed, ${report.flagged} flagged${report.flagged > 0 ? ' (see qa-report.md)' : ''}.`);
+  }
+
+  const thisRun = sumUsage(usage.slice(spentBefore), prices);
+  const total = sumUsage(usage, prices);
+  console.log(`Usage: ${formatCost(thisRun.cost)} this run (${thisRun.calls} calls, ${formatTokens(thisRun.inputTokens)} tokens in, ${formatTokens(thisRun.outputTokens)} out, ${thisRun.images} images); ${formatCost(total.cost)} in total for ${outDir}.`);
+
+  const left = remainingScenes(analysis).length;
+  console.log(left === 0
+    ? `Done: ${analysis.scenes.length} scenes written to ${outDir}`
+    : `${left} of ${analysis.scenes.length} scenes not finished. Run the same command again to resume.`);
+  process.exitCode = left === 0 ? 0 : 2;
+};
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    aspect: { type: 'string' },
+    out: { type: 'string' },
+    provider: { type: 'string' },
+    style: { type: 'string' },
+    'native-prompts': { type: 'boolean' },
+    variations: { type: 'string' },
+    concurrency: { type: 'string' },
+    rpm: { type: 'string' },
+    fresh: { type: 'boolean' },
+    force: { type: 'boolean' },
+    'cache-dir': { type: 'string' },
+    'cache-mb': { type: 'string' },
+    'no-cache': { type: 'boolean' },
+    qa: { type: 'boolean' },
+    'qa-threshold': { type: 'string' },
+    'qa-retries': { type: 'string' },
+    budget: { type: 'string' },
+    help: { type: 'boolean', short: 'h' }
+  }
+});
+
+const [command, scriptPath] = positionals;
+if (values.help || command !== 'run' || !scriptPath) {
+  console.log(USAGE);
+  process.exitCode = values.help ? 0 : 1;
+} else {
+  await run(scriptPath, values);
+}
@@ -0,0 +1,152 @@
+import { AnalysisResult, CharacterCheck, ConsistencyExpectation, ConsistencyReport, QaOptions, ScenePrompt } from "./types";
+import { buildReferences, sceneCharacters } from "./characterContext";
+import { resolveCharacter } from "./characterResolver";
+
+// Consistency QA: a vision model looks at a generated image and says who is in it and how well
+// they match the character sheet. Providers return the model's raw verdict through
+// normalizeCheck, which also applies the hard rules (missing cast, extra people) to the score.
+
+export const DEFAULT_QA_OPTIONS: QaOptions = {
+  enabled: false,
+  threshold: 70,
+  maxRegenerations: 2
+};
+
+// Points taken off the model's score, so a missing character can't pass on a generous rating
+const MISSING_PENALTY = 25;
+const EXTRA_PERSON_PENALTY = 15;
+
+// The model's answer before normalizing; every field may be missing or malformed
+export interface RawConsistencyCheck {
+  peopleCount?: unknown;
+  characters?: unknown;
+  score?: unknown;
+  reasons?: unknown;
+}
+
+export const buildExpectation = (analysis: AnalysisResult, scene: ScenePrompt): ConsistencyExpectation => ({
+  scene: scene.refinedPrompt,
+  characters: sceneCharacters(analysis.characters, scene).map(c => ({ id: c.id, name: c.name, description: c.description })),
+  references: buildReferences(analysis.characters, scene)
+});
+
+// Image order is the image under test, then the references
+export const buildCheckPrompt = (expectation: ConsistencyExpectation): string => [
+  'You are checking a generated storyboard frame (image 1) for continuity errors.',
+  `SCENE: ${expectation.scene}`,
+  expectation.characters.length > 0
+    ? `EXPECTED CHARACTERS (${expectation.characters.length}):\n${expectation.characters.map(c => `- ${c.name}: ${c.description}`).join('\n')}`
+    : 'EXPECTED CHARACTERS: none; the frame should show no identifiable people.',
+  expectation.references.length > 0
+    ? `REFERENCE IMAGES: ${expectation.references.map((r, i) => `image ${i + 2} shows ${r.label}`).join('; ')}.`
+    : '',
+  'Count the people clearly visible in image 1. For each expected character, say whether they are present and whether their face, hair, build and wardrobe match the description (and reference, if given).',
+  'Give a score from 0 to 100 for how well the frame matches the scene and the characters, and short reasons for anything that lowers it.'
+].filter(Boolean).join('\n\n');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const normalizeCheck = (raw: RawConsistencyCheck, expectation: ConsistencyExpectation): ConsistencyReport => {
+  const cast = expectation.characters;
+  const reported = (Array.isArray(raw.characters) ? raw.characters : []).filter(isRecord);
+
+  const characters: CharacterCheck[] = cast.map(c => {
+    const entry = reported.find(r => typeof r.name === 'string' && resolveCharacter(r.name, cast)?.id === c.id);
+    return {
+      characterId: c.id,
+      name: c.name,
+      present: entry?.present === true,
+      matches: entry?.present === true && entry?.matchesDescription !== false,
+      notes: typeof entry?.notes === 'string' ? entry.notes : entry ? '' : 'Not mentioned by the check'
+    };
+  });
+
+  const peopleCount = Math.max(0, Math.round(Number(raw.peopleCount) || 0));
+  const missing = characters.filter(c => !c.present);
+  const drifted = characters.filter(c => c.present && !c.matches);
+  const extra = Math.max(0, peopleCount - cast.length);
+
+  const reasons = [
+    ...missing.map(c => `${c.name} is missing`),
+    ...(extra > 0 ? [`${extra} more ${extra === 1 ? 'person' : 'people'} than the scene calls for`] : []),
+    ...drifted.map(c => `${c.name} doesn't match the character sheet${c.notes ? `: ${c.notes}` : ''}`),
+    ...(Array.isArray(raw.reasons) ? raw.reasons.filter((r): r is string => typeof r === 'string' && !!r.trim()) : [])
+  ];
+
+  const modelScore = Math.min(100, Math.max(0, Math.round(Number(raw.score) || 0)));
+  return {
+    score: Math.max(0, Math.min(modelScore, 100 - MISSING_PENALTY * missing.length - EXTRA_PERSON_PENALTY * extra)),
+    peopleCount,
+    expectedPeople: cast.length,
+    characters,
+    reasons: [...new Set(reasons)],
+    attempts: 1,
+    checkedAt: Date.now()
+  };
+};
+
+export const isFlagged = (report: ConsistencyReport | undefined, threshold: number): boolean =>
+  !!report && report.score < threshold;
+
+export const selectedReport = (scene: ScenePrompt): ConsistencyReport | undefined =>
+  scene.takes?.find(t => t.id === scene.selectedTakeId)?.qa;
+
+// --- Report for exports ---
+
+export interface QaSceneSummary {
+  index: number; // 1-based position in the storyboard
+  id: string;
+  score: number | null; // null when the selected image was never checked
+  flagged: boolean;
+  attempts: number;
+  reasons: string[];
+}
+
+export interface QaReport {
+  threshold: number;
+  checked: number;
+  passed: number;
+  flagged: number;
+  unchecked: number;
+  averageScore: number | null;
+  scenes: QaSceneSummary[];
+}
+
+export const buildQaReport = (analysis: AnalysisResult, threshold: number): QaReport => {
+  const scenes = analysis.scenes.map((scene, i): QaSceneSummary => {
+    const report = selectedReport(scene);
+    return {
+      index: i + 1,
+      id: scene.id,
+      score: report?.score ?? null,
+      flagged: isFlagged(report, threshold),
+      attempts: report?.attempts ?? 0,
+      reasons: report?.reasons ?? []
+    };
+  });
+  const scores = scenes.flatMap(s => s.score === null ? [] : [s.score]);
+  return {
+    threshold,
+    checked: scores.length,
+    passed: scenes.filter(s => s.score !== null && !s.flagged).length,
+    flagged: scenes.filter(s => s.flagged).length,
+    unchecked: scenes.length - scores.length,
+    averageScore: scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : null,
+    scenes
+  };
+};
+
+export const hasQaResults = (analysis: AnalysisResult): boolean => analysis.scenes.some(s => s.takes?.some(t => t.qa));
+
+export const qaReportToMarkdown = (report: QaReport, projectName: string): string => [
+  `# Consistency report: ${projectName}`,
+  '',
+  `Threshold ${report.threshold}/100. ${report.checked} checked, ${report.passed} passed, ${report.flagged} flagged, ${report.unchecked} not checked.` +
+    (report.averageScore !== null ? ` Average score ${report.averageScore}.` : ''),
+  '',
+  '| Scene | Score | Result | Attempts | Reasons |',
+  '| --- | --- | --- | --- | --- |',
+  ...report.scenes.map(s => `| ${s.index} | ${s.score ?? '-'} | ${s.score === null ? 'not checked' : s.flagged ? 'FLAGGED' : 'passed'} | ${s.attempts || '-'} | ${s.reasons.join('; ').replace(/\|/g, '\\|') || '-'} |`),
+  ''
+].join('\n');
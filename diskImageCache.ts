@@ -0,0 +1,55 @@
+// Disk-backed ImageCache for the CLI (and anything else running under Node). One JSON file per
+// entry; the file's modification time doubles as its last-used time.
+
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DEFAULT_CACHE_MAX_BYTES, ImageCache, ImageCacheEntry, pickEvictions } from './imageCache';
+import { GeneratedImage } from './types';
+
+export const DEFAULT_CACHE_DIR = '.visionbulk-cache';
+
+const EXTENSION = '.json';
+
+export const createDiskImageCache = (dir: string = DEFAULT_CACHE_DIR, maxBytes: number = DEFAULT_CACHE_MAX_BYTES): ImageCache => {
+  const file = (key: string) => path.join(dir, `${key}${EXTENSION}`);
+
+  const entries = async (): Promise<ImageCacheEntry[]> => {
+    const names = await readdir(dir).catch(() => [] as string[]);
+    const found = await Promise.all(names.filter(n => n.endsWith(EXTENSION)).map(async (name) => {
+      const info = await stat(path.join(dir, name)).catch(() => null);
+      return info && { key: name.slice(0, -EXTENSION.length), bytes: info.size, lastUsed: info.mtimeMs };
+    }));
+    return found.filter((e): e is ImageCacheEntry => !!e);
+  };
+
+  return {
+    get: async (key) => {
+      try {
+        const image = JSON.parse(await readFile(file(key), 'utf8')) as GeneratedImage;
+        const now = new Date();
+        await utimes(file(key), now, now);
+        return image;
+      } catch {
+        return null;
+      }
+    },
+
+    has: async (key) => existsSync(file(key)),
+
+    put: async (key, image) => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(file(key), JSON.stringify({ imageUrl: image.imageUrl, prompt: image.prompt }));
+      await Promise.all(pickEvictions(await entries(), maxBytes).map(evicted => rm(file(evicted), { force: true })));
+    },
+
+    stats: async () => {
+      const found = await entries();
+      return { entries: found.length, bytes: found.reduce((sum, e) => sum + e.bytes, 0), maxBytes };
+    },
+
+    clear: async () => {
+      await Promise.all((await entries()).map(e => rm(file(e.key), { force: true })));
+    }
+  };
+};
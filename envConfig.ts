@@ -0,0 +1,15 @@
+// Environment variables exposed to the app code as process.env.*. The web build inlines them
+// through Vite's `define`; the CLI copies them into process.env, so both read the same .env files.
+// Everything here ends up in the browser bundle, so secrets stay out of this list: only server.ts
+// reads GEMINI_API_KEY, and the API token goes to the CLI only (see cliEnv).
+export const appEnv = (env: Record<string, string>): Record<string, string | undefined> => ({
+  VISIONBULK_PROVIDER: env.VISIONBULK_PROVIDER,
+  VISIONBULK_API_URL: env.VISIONBULK_API_URL,
+  VISIONBULK_PRICES: env.VISIONBULK_PRICES
+});
+
+// The CLI runs on the user's machine, so it may also read the token it sends to the server
+export const cliEnv = (env: Record<string, string>): Record<string, string | undefined> => ({
+  ...appEnv(env),
+  VISIONBULK_API_TOKEN: env.VISIONBULK_API_TOKEN
+});
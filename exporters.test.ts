@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCaptions, buildEdl, buildFcpxml, buildManifest, DEFAULT_EXPORT_OPTIONS, ExportOptions, manifestToCsv } from './exporters';
+import { AnalysisResult } from './types';
+
+const png = 'data:image/png;base64,iVBORw0KGgo=';
+const jpeg = 'data:image/jpeg;base64,/9j/4AAQ';
+
+const analysis: AnalysisResult = {
+  characters: [{ id: 'ayesha', name: 'Ayesha', description: 'Tall, red scarf' }],
+  locations: [{ id: 'kitchen', name: 'Kitchen', description: 'Green tiles' }],
+  visualStyle: 'ink',
+  scenes: [
+    { id: 'scene-1', originalText: 'She says "hi", then leaves.', refinedPrompt: 'A', presentCharacters: ['Ayesha'], characterIds: ['ayesha'], continuity: { locationId: 'kitchen' }, status: 'completed', imageUrl: png },
+    { id: 'scene-2', originalText: 'Rain.', refinedPrompt: 'B', presentCharacters: [], status: 'error', error: 'Blocked' },
+    { id: 'scene-3', originalText: 'Dawn.', refinedPrompt: 'C', presentCharacters: [], status: 'completed', imageUrl: jpeg, timing: { start: 10, end: 12.5 } }
+  ]
+};
+
+const options: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS, projectName: 'Harbour & Co', aspectRatio: '9:16' };
+
+test('the manifest keeps each scene at its storyboard position', () => {
+  const manifest = buildManifest(analysis, options);
+  assert.deepEqual(manifest.scenes.map(s => s.file), ['scene-1.png', null, 'scene-3.jpg']);
+  assert.deepEqual(manifest.scenes.map(s => [s.start, s.duration]), [[0, 3], [3, 3], [10, 2.5]]);
+  assert.equal(manifest.scenes[0].location, 'Kitchen');
+  assert.equal(manifest.scenes[1].error, 'Blocked');
+  assert.equal(manifest.characters[0].referenceImages, 0);
+});
+
+test('CSV quotes cells with commas and quotes', () => {
+  const rows = manifestToCsv(buildManifest(analysis, options)).split('\r\n');
+  assert.equal(rows.length, 4);
+  assert.match(rows[0], /^index,id,file,status,start,duration,/);
+  assert.match(rows[1], /"She says ""hi"", then leaves\."/);
+  assert.match(rows[2], /^2,scene-2,,error,3,3,/);
+});
+
+test('the EDL lists exported scenes on the record timeline from 01:00:00:00', () => {
+  const edl = buildEdl(buildManifest(analysis, options), 24);
+  assert.match(edl, /^TITLE: HARBOUR & CO\nFCM: NON-DROP FRAME\n/);
+  assert.match(edl, /001  SCN001   V     C        00:00:00:00 00:00:03:00 01:00:00:00 01:00:03:00\n\* FROM CLIP NAME: scene-1\.png/);
+  assert.match(edl, /002  SCN003   V     C        00:00:00:00 00:00:02:12 01:00:10:00 01:00:12:12/);
+  assert.doesNotMatch(edl, /scene-2/);
+});
+
+test('FCPXML puts stills on the spine with a gap where nothing was exported', () => {
+  const xml = buildFcpxml(buildManifest(analysis, options), 24);
+  assert.match(xml, /<format id="r1" name="VisionBulk1080x1920p24" frameDuration="1\/24s" width="1080" height="1920"\/>/);
+  assert.match(xml, /<project name="Harbour &amp; Co">/);
+  assert.match(xml, /<sequence format="r1" duration="300\/24s"/);
+  const spine = xml.slice(xml.indexOf('<spine>'), xml.indexOf('</spine>'));
+  assert.deepEqual([...spine.matchAll(/<(video|gap)\b[^>]*offset="([^"]+)"[^>]*duration="([^"]+)"/g)].map(m => m.slice(1).join(' ')), [
+    'video 0/24s 72/24s',
+    'gap 72/24s 168/24s',
+    'video 240/24s 60/24s'
+  ]);
+});
+
+test('FCPXML assets point at their images through media-rep elements', () => {
+  const xml = buildFcpxml(buildManifest(analysis, options), 24);
+  assert.match(xml, /<asset id="r2" name="scene-1\.png" start="0s" duration="0s" hasVideo="1" format="r1">\n {6}<media-rep kind="original-media" src="scene-1\.png"\/>\n {4}<\/asset>/);
+  assert.match(xml, /<media-rep kind="original-media" src="scene-3\.jpg"\/>/);
+  assert.doesNotMatch(xml, /<asset [^>]*src=/);
+});
+
+test('captions carry the exported scenes\' source text over their place on the timeline', () => {
+  const manifest = buildManifest(analysis, options);
+  assert.equal(buildCaptions(manifest, 'srt'), '1\n00:00:00,000 --> 00:00:03,000\nShe says "hi", then leaves.\n\n2\n00:00:10,000 --> 00:00:12,500\nDawn.\n');
+  assert.equal(buildCaptions(manifest, 'vtt'), 'WEBVTT\n\nscene-1\n00:00:00.000 --> 00:00:03.000\nShe says "hi", then leaves.\n\nscene-3\n00:00:10.000 --> 00:00:12.500\nDawn.\n');
+});
+
+test('right-to-left caption lines start with a right-to-left mark and blank lines are dropped', () => {
+  const rlm = String.fromCharCode(0x200f);
+  const urdu: AnalysisResult = {
+    ...analysis,
+    scenes: [{ ...analysis.scenes[0], originalText: 'بارش ہو رہی ہے۔\n\n  "Run!"  ' }]
+  };
+  assert.equal(buildCaptions(buildManifest(urdu, options), 'srt'), `1\n00:00:00,000 --> 00:00:03,000\n${rlm}بارش ہو رہی ہے۔\n"Run!"\n`);
+});
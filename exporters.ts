@@ -0,0 +1,439 @@
+import JSZip from 'jszip';
+import { jsPDF } from 'jspdf';
+import { parseDataUrl, wrapText } from './imageUtils';
+import { sceneLocation } from './characterContext';
+import { textDirection } from './scriptLanguage';
+import { AnalysisResult, ScenePrompt, ScriptLanguage } from './types';
+import { buildQaReport, DEFAULT_QA_OPTIONS, hasQaResults, isFlagged, qaReportToMarkdown, selectedReport } from './consistencyCheck';
+
+// Storyboard exports. Every file is named after the scene's real position in the
+// storyboard, so a failed scene 3 leaves a gap instead of shifting scene 4 down.
+
+export interface ExportOptions {
+  projectName: string;
+  aspectRatio: string;
+  defaultSceneSeconds: number; // Used for scenes without a source time range
+  fps: number;
+  qaThreshold: number; // Consistency scores below this count as flagged
+}
+
+export const DEFAULT_EXPORT_OPTIONS: Omit<ExportOptions, 'projectName' | 'aspectRatio'> = {
+  defaultSceneSeconds: 3,
+  fps: 24,
+  qaThreshold: DEFAULT_QA_OPTIONS.threshold
+};
+
+export interface ManifestScene {
+  index: number; // 1-based position in the storyboard
+  id: string;
+  file: string | null;
+  status: ScenePrompt['status'];
+  originalText: string;
+  refinedPrompt: string;
+  presentCharacters: string[];
+  characterIds: string[];
+  locationId?: string;
+  location?: string; // Name from the location sheet
+  timeOfDay?: string;
+  weather?: string;
+  props?: string[];
+  wardrobe?: string;
+  shot?: string;
+  finalPrompt?: string; // Prompt that produced the selected take
+  takes: number;
+  start: number; // Seconds on the exported timeline
+  duration: number;
+  error?: string;
+  qaScore?: number; // Consistency score of the selected take, when it was checked
+  qaFlagged?: boolean;
+  qaReasons?: string[];
+}
+
+export interface StoryboardManifest {
+  project: string;
+  exportedAt: string;
+  aspectRatio: string;
+  language?: ScriptLanguage; // Of originalText, when it was detected
+  visualStyle: string;
+  characters: { id: string; name: string; aliases: string[]; description: string; referenceImages: number }[];
+  locations: { id: string; name: string; description: string }[];
+  scenes: ManifestScene[];
+}
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+export const isExportable = (scene: ScenePrompt): boolean => !!scene.imageUrl && scene.status === 'completed';
+
+export const sceneFileName = (scene: ScenePrompt, index: number): string =>
+  `scene-${index + 1}.${EXTENSIONS[parseDataUrl(scene.imageUrl ?? '').mimeType] ?? 'png'}`;
+
+export const slugify = (name: string): string => name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'storyboard';
+
+const FRAME_SIZES: Record<string, [number, number]> = {
+  '16:9': [1920, 1080],
+  '9:16': [1080, 1920],
+  '1:1': [1080, 1080],
+  '4:3': [1440, 1080],
+  '3:4': [1080, 1440]
+};
+
+export const frameSize = (aspectRatio: string): [number, number] => FRAME_SIZES[aspectRatio] ?? FRAME_SIZES['16:9'];
+
+// Scenes with a source time range (subtitles) sit at that time; the rest follow one after another
+const layoutTimeline = (scenes: ScenePrompt[], options: ExportOptions): { start: number; duration: number }[] => {
+  let cursor = 0;
+  return scenes.map(scene => {
+    const start = scene.timing ? Math.max(cursor, scene.timing.start) : cursor;
+    const duration = scene.timing ? Math.max(1 / options.fps, scene.timing.end - scene.timing.start) : options.defaultSceneSeconds;
+    cursor = start + duration;
+    return { start, duration };
+  });
+};
+
+const qaFields = (scene: ScenePrompt, threshold: number): Pick<ManifestScene, 'qaScore' | 'qaFlagged' | 'qaReasons'> => {
+  const report = selectedReport(scene);
+  return report ? { qaScore: report.score, qaFlagged: isFlagged(report, threshold), qaReasons: report.reasons } : {};
+};
+
+const continuityFields = (analysis: AnalysisResult, scene: ScenePrompt): Partial<ManifestScene> => {
+  const location = sceneLocation(analysis.locations, scene);
+  return { ...scene.continuity, ...(location ? { location: location.name } : {}) };
+};
+
+export const buildManifest = (analysis: AnalysisResult, options: ExportOptions): StoryboardManifest => {
+  const layout = layoutTimeline(analysis.scenes, options);
+  return {
+    project: options.projectName,
+    exportedAt: new Date().toISOString(),
+    aspectRatio: options.aspectRatio,
+    ...(analysis.language ? { language: analysis.language } : {}),
+    visualStyle: analysis.visualStyle,
+    characters: analysis.characters.map(c => ({ id: c.id, name: c.name, aliases: c.aliases ?? [], description: c.description, referenceImages: c.referenceImages?.length ?? 0 })),
+    locations: (analysis.locations ?? []).map(l => ({ id: l.id, name: l.name, description: l.description })),
+    scenes: analysis.scenes.map((scene, i) => ({
+      index: i + 1,
+      id: scene.id,
+      file: isExportable(scene) ? sceneFileName(scene, i) : null,
+      status: scene.status,
+      originalText: scene.originalText,
+      refinedPrompt: scene.refinedPrompt,
+      presentCharacters: scene.presentCharacters,
+      characterIds: scene.characterIds ?? [],
+      ...continuityFields(analysis, scene),
+      finalPrompt: scene.takes?.find(t => t.id === scene.selectedTakeId)?.prompt,
+      takes: scene.takes?.length ?? 0,
+      start: layout[i].start,
+      duration: layout[i].duration,
+      ...(scene.error ? { error: scene.error } : {}),
+      ...qaFields(scene, options.qaThreshold)
+    }))
+  };
+};
+
+const csvCell = (value: unknown): string => {
+  const text = Array.isArray(value) ? value.join('; ') : String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const manifestToCsv = (manifest: StoryboardManifest): string => {
+  const columns: (keyof ManifestScene)[] = ['index', 'id', 'file', 'status', 'start', 'duration', 'presentCharacters', 'location', 'timeOfDay', 'weather', 'props', 'wardrobe', 'shot', 'originalText', 'refinedPrompt', 'qaScore', 'qaFlagged', 'qaReasons'];
+  const rows = manifest.scenes.map(scene => columns.map(column => csvCell(scene[column])).join(','));
+  return [columns.join(','), ...rows].join('\r\n');
+};
+
+// --- Editor timelines ---
+
+const timecode = (seconds: number, fps: number): string => {
+  const totalFrames = Math.round(seconds * fps);
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  return [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60, frames]
+    .map(n => String(n).padStart(2, '0'))
+    .join(':');
+};
+
+// CMX3600 EDL. Record timecode starts at 01:00:00:00, the usual programme start.
+export const buildEdl = (manifest: StoryboardManifest, fps: number): string => {
+  const lines = [`TITLE: ${manifest.project.toUpperCase().slice(0, 70)}`, 'FCM: NON-DROP FRAME', ''];
+  let event = 1;
+  for (const scene of manifest.scenes) {
+    if (!scene.file) continue;
+    const reel = `SCN${String(scene.index).padStart(3, '0')}`.slice(0, 8);
+    const recordIn = timecode(3600 + scene.start, fps);
+    const recordOut = timecode(3600 + scene.start + scene.duration, fps);
+    lines.push(
+      `${String(event++).padStart(3, '0')}  ${reel.padEnd(8)} V     C        ${timecode(0, fps)} ${timecode(scene.duration, fps)} ${recordIn} ${recordOut}`,
+      `* FROM CLIP NAME: ${scene.file}`,
+      `* COMMENT: ${scene.originalText.replace(/\s+/g, ' ').slice(0, 120)}`,
+      ''
+    );
+  }
+  return lines.join('\n');
+};
+
+const xmlEscape = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const rational = (seconds: number, fps: number): string => `${Math.round(seconds * fps)}/${fps}s`;
+
+// FCPXML 1.9 with stills laid out on the primary storyline. Each asset points at its image through a
+// media-rep, which normally holds an absolute file:// URL. A browser can't know where the images will
+// be unzipped, so the URLs are relative to the XML file: keep it next to the images, and relink in
+// Final Cut if it reports them missing.
+export const buildFcpxml = (manifest: StoryboardManifest, fps: number): string => {
+  const [width, height] = frameSize(manifest.aspectRatio);
+  const scenes = manifest.scenes.filter(s => s.file);
+  const assets = scenes.flatMap((scene, i) => [
+    `    <asset id="r${i + 2}" name="${xmlEscape(scene.file!)}" start="0s" duration="0s" hasVideo="1" format="r1">`,
+    `      <media-rep kind="original-media" src="${xmlEscape(encodeURIComponent(scene.file!))}"/>`,
+    '    </asset>'
+  ]);
+  const spine: string[] = [];
+  let cursor = 0;
+  scenes.forEach((scene, i) => {
+    if (scene.start > cursor) {
+      spine.push(`            <gap name="Gap" offset="${rational(cursor, fps)}" duration="${rational(scene.start - cursor, fps)}"/>`);
+    }
+    spine.push(`            <video ref="r${i + 2}" name="Scene ${scene.index}" offset="${rational(scene.start, fps)}" start="0s" duration="${rational(scene.duration, fps)}"/>`);
+    cursor = scene.start + scene.duration;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format id="r1" name="VisionBulk${width}x${height}p${fps}" frameDuration="1/${fps}s" width="${width}" height="${height}"/>`,
+    ...assets,
+    '  </resources>',
+    '  <library>',
+    '    <event name="VisionBulk">',
+    `      <project name="${xmlEscape(manifest.project)}">`,
+    `        <sequence format="r1" duration="${rational(cursor, fps)}" tcStart="0s" tcFormat="NDF">`,
+    '          <spine>',
+    ...spine,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    ''
+  ].join('\n');
+};
+
+// --- Captions ---
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+// Starts right-to-left lines so players that don't detect direction still put the punctuation right
+const RIGHT_TO_LEFT_MARK = '\u200F';
+
+const captionTime = (seconds: number, format: CaptionFormat): string => {
+  const ms = Math.round(seconds * 1000);
+  const fields = [Math.floor(ms / 3_600_000), Math.floor(ms / 60_000) % 60, Math.floor(ms / 1000) % 60].map(n => String(n).padStart(2, '0'));
+  return `${fields.join(':')}${format === 'srt' ? ',' : '.'}${String(ms % 1000).padStart(3, '0')}`;
+};
+
+// A blank line would end the cue early
+const captionText = (text: string): string => text
+  .split('\n')
+  .map(line => line.replace(/\s+/g, ' ').trim())
+  .filter(Boolean)
+  .map(line => textDirection(line) === 'rtl' ? `${RIGHT_TO_LEFT_MARK}${line}` : line)
+  .join('\n');
+
+// Each exported scene's source text, untranslated, over the scene's place on the timeline
+export const buildCaptions = (manifest: StoryboardManifest, format: CaptionFormat): string => {
+  const cues = manifest.scenes
+    .filter(scene => scene.file && scene.originalText.trim())
+    .map((scene, i) => [
+      format === 'srt' ? String(i + 1) : `scene-${scene.index}`,
+      `${captionTime(scene.start, format)} --> ${captionTime(scene.start + scene.duration, format)}`,
+      captionText(scene.originalText)
+    ].join('\n'));
+  return `${[...(format === 'vtt' ? ['WEBVTT'] : []), ...cues].join('\n\n')}\n`;
+};
+
+// --- PDF contact sheet ---
+
+// jsPDF's standard fonts only cover Latin text. Text in other scripts (Urdu, Hindi, ...) is drawn on a
+// canvas with the browser's fonts, which also join the letters and lay out right-to-left text.
+const LATIN_TEXT = /^[\u0000-\u024F\u2000-\u206F]*$/;
+const CANVAS_PX_PER_MM = 12;
+const MM_PER_PT = 0.3528;
+
+interface PdfTextStyle {
+  fontSizePt: number;
+  color: number; // Grey level, as for doc.setTextColor
+  widthMm: number;
+  lineHeightMm: number;
+  maxLines?: number; // Further lines are cut, with an ellipsis
+  anchor?: 'start' | 'left'; // Right-to-left text starts at the right edge of its width unless anchored left
+}
+
+interface PdfTextBlock {
+  heightMm: number;
+  draw: (x: number, baseline: number) => void; // baseline of the first line, as for doc.text
+}
+
+const clipLines = (lines: string[], maxLines: number | undefined): string[] =>
+  maxLines !== undefined && lines.length > maxLines ? [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}…`] : lines;
+
+// Lines of text drawn on a canvas with the browser's fonts, as an image cropped to the longest line
+const canvasText = (text: string, style: PdfTextStyle): { dataUrl: string; widthMm: number; lines: number; rtl: boolean } => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  const font = `${style.fontSizePt * MM_PER_PT * CANVAS_PX_PER_MM}px sans-serif`;
+  const lineHeight = style.lineHeightMm * CANVAS_PX_PER_MM;
+  ctx.font = font;
+  const lines = clipLines(wrapText(ctx, text, Math.round(style.widthMm * CANVAS_PX_PER_MM)), style.maxLines);
+  canvas.width = Math.max(1, Math.ceil(Math.max(...lines.map(line => ctx.measureText(line).width))));
+  canvas.height = Math.max(1, Math.ceil(lines.length * lineHeight));
+  // Resizing the canvas resets the context
+  const rtl = textDirection(text) === 'rtl';
+  ctx.font = font;
+  ctx.fillStyle = `rgb(${style.color}, ${style.color}, ${style.color})`;
+  ctx.textBaseline = 'middle';
+  ctx.direction = rtl ? 'rtl' : 'ltr';
+  ctx.textAlign = rtl ? 'right' : 'left';
+  lines.forEach((line, i) => ctx.fillText(line, rtl ? canvas.width : 0, (i + 0.5) * lineHeight));
+  return { dataUrl: canvas.toDataURL('image/png'), widthMm: canvas.width / CANVAS_PX_PER_MM, lines: lines.length, rtl };
+};
+
+// Every string in the PDF goes through here: Latin text as PDF text, anything else as a canvas image
+// laid out to match, so names and descriptions in Urdu or Arabic come out as readable as the captions
+const layoutText = (doc: jsPDF, text: string, style: PdfTextStyle): PdfTextBlock => {
+  if (!text.trim()) return { heightMm: 0, draw: () => {} };
+  if (LATIN_TEXT.test(text)) {
+    doc.setFontSize(style.fontSizePt);
+    const lines = clipLines(doc.splitTextToSize(text, style.widthMm) as string[], style.maxLines);
+    return {
+      heightMm: lines.length * style.lineHeightMm,
+      draw: (x, baseline) => {
+        doc.setFontSize(style.fontSizePt);
+        doc.setTextColor(style.color);
+        doc.text(lines, x, baseline);
+      }
+    };
+  }
+  const image = canvasText(text, style);
+  const heightMm = image.lines * style.lineHeightMm;
+  return {
+    heightMm,
+    draw: (x, baseline) => {
+      // The canvas centres each line in its line height; the alphabetic baseline sits about a third of the font size lower
+      const top = baseline - style.lineHeightMm / 2 - style.fontSizePt * MM_PER_PT * 0.35;
+      const left = image.rtl && style.anchor !== 'left' ? x + style.widthMm - image.widthMm : x;
+      doc.addImage(image.dataUrl, 'PNG', left, top, image.widthMm, heightMm);
+    }
+  };
+};
+
+export const buildStoryboardPdf = (analysis: AnalysisResult, options: ExportOptions): jsPDF => {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 12;
+  const gap = 6;
+  const columns = 3;
+  const [frameW, frameH] = frameSize(options.aspectRatio);
+  const panelWidth = (pageWidth - margin * 2 - gap * (columns - 1)) / columns;
+  const imageHeight = Math.min(panelWidth * frameH / frameW, 70);
+  const imageWidth = imageHeight * frameW / frameH;
+  const captionLines = 4;
+  const panelHeight = imageHeight + 8 + captionLines * 3.6;
+  const textWidth = pageWidth - margin * 2;
+
+  // The project name is laid out once and drawn on every page
+  const title = layoutText(doc, options.projectName, { fontSizePt: 14, color: 20, widthMm: textWidth * 0.6, lineHeightMm: 6, maxLines: 1, anchor: 'left' });
+  const header = (page: number) => {
+    title.draw(margin, margin);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(`${analysis.scenes.length} scenes · ${options.aspectRatio} · page ${page}`, pageWidth - margin, margin, { align: 'right' });
+  };
+
+  let page = 1;
+  header(page);
+  let y = margin + 8;
+  analysis.scenes.forEach((scene, i) => {
+    const column = i % columns;
+    if (column === 0 && i > 0) y += panelHeight + gap;
+    if (column === 0 && y + panelHeight > pageHeight - margin) {
+      doc.addPage();
+      header(++page);
+      y = margin + 8;
+    }
+    const x = margin + column * (panelWidth + gap);
+    if (isExportable(scene)) {
+      const { mimeType } = parseDataUrl(scene.imageUrl!);
+      doc.addImage(scene.imageUrl!, mimeType === 'image/jpeg' ? 'JPEG' : mimeType === 'image/webp' ? 'WEBP' : 'PNG', x, y, imageWidth, imageHeight);
+    } else {
+      doc.setDrawColor(200);
+      doc.rect(x, y, imageWidth, imageHeight);
+      doc.setFontSize(8);
+      doc.setTextColor(160);
+      doc.text(scene.status === 'error' ? 'Generation failed' : 'Not generated', x + imageWidth / 2, y + imageHeight / 2, { align: 'center' });
+    }
+    const label = `Scene ${i + 1}${scene.presentCharacters.length ? ` · ${scene.presentCharacters.join(', ')}` : ''}`;
+    layoutText(doc, label, { fontSizePt: 9, color: 20, widthMm: panelWidth, lineHeightMm: 3.6, maxLines: 1, anchor: 'left' }).draw(x, y + imageHeight + 5);
+    layoutText(doc, scene.originalText.replace(/\s+/g, ' '), { fontSizePt: 7.5, color: 80, widthMm: panelWidth, lineHeightMm: 3.2, maxLines: captionLines }).draw(x, y + imageHeight + 9);
+  });
+
+  // Character and location sheets: a name and its description per entry
+  const sheet = (heading: string, entries: { name: string; description: string }[]) => {
+    if (entries.length === 0) return;
+    doc.addPage();
+    header(++page);
+    doc.setFontSize(11);
+    doc.setTextColor(20);
+    doc.text(heading, margin, margin + 10);
+    let cy = margin + 17;
+    for (const entry of entries) {
+      const name = layoutText(doc, entry.name, { fontSizePt: 9, color: 20, widthMm: textWidth, lineHeightMm: 4, maxLines: 1 });
+      const description = layoutText(doc, entry.description, { fontSizePt: 8, color: 80, widthMm: textWidth, lineHeightMm: 4 });
+      if (cy + 5 + description.heightMm > pageHeight - margin) {
+        doc.addPage();
+        header(++page);
+        cy = margin + 10;
+      }
+      name.draw(margin, cy);
+      description.draw(margin, cy + 4);
+      cy += 8 + description.heightMm;
+    }
+  };
+  sheet('Character Sheet', analysis.characters);
+  sheet('Location Sheet', analysis.locations ?? []);
+  return doc;
+};
+
+// --- Bundles ---
+
+export const buildZip = async (analysis: AnalysisResult, options: ExportOptions): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifest = buildManifest(analysis, options);
+  analysis.scenes.forEach((scene, i) => {
+    if (isExportable(scene)) zip.file(sceneFileName(scene, i), parseDataUrl(scene.imageUrl!).data, { base64: true });
+  });
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('manifest.csv', manifestToCsv(manifest));
+  zip.file('storyboard.edl', buildEdl(manifest, options.fps));
+  zip.file('storyboard.fcpxml', buildFcpxml(manifest, options.fps));
+  zip.file('captions.srt', buildCaptions(manifest, 'srt'));
+  zip.file('captions.vtt', buildCaptions(manifest, 'vtt'));
+  if (hasQaResults(analysis)) {
+    const report = buildQaReport(analysis, options.qaThreshold);
+    zip.file('qa-report.json', JSON.stringify(report, null, 2));
+    zip.file('qa-report.md', qaReportToMarkdown(report, options.projectName));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+};
@@ -1,89 +1,107 @@
+import { AnalysisResult, AnalyzeOptions, ConsistencyExpectation, ConsistencyReport, GeneratedImage, ReferenceImage, StylePreset, VisionProvider } from "./types";
+import { AnalyzeRequest, ApiEvent, CheckRequest, DEFAULT_SERVER_PORT, EditRequest, errorBody, GEMINI_MODELS, GenerateRequest } from "./apiProtocol";
+import { AnalysisError } from "./analysisValidation";
+import { recordUsage } from "./usage";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, CharacterInfo } from "./types";
+// Gemini through the VisionBulk server (server.ts), which holds the API key. The browser
+// reaches it through Vite's /api proxy; the CLI talks to it directly.
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+const apiBase = (): string =>
+  process.env.VISIONBULK_API_URL || (typeof window === 'undefined' ? `http://localhost:${DEFAULT_SERVER_PORT}` : '');
 
-export const analyzeScript = async (text: string): Promise<AnalysisResult> => {
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Analyze the following script/text:
-    1. Extract a "Character Sheet" with detailed physical descriptions for ALL main characters to ensure visual consistency.
-    2. Divide the text into specific scenes.
-    3. For each scene, identify ONLY the characters that are actually present or active in that specific scene.
-    4. Create a "refinedPrompt" for each scene that strictly describes what is happening. Do NOT include characters who are not in the scene.
-    
-    Style: Professional Realistic Photography, 8k, cinematic lighting.
-    
-    Text: ${text}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          characters: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                description: { type: Type.STRING }
-              },
-              required: ["name", "description"]
-            }
-          },
-          visualStyle: { type: Type.STRING, description: "Detailed description of the photographic style" },
-          scenes: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                originalText: { type: Type.STRING },
-                refinedPrompt: { type: Type.STRING, description: "Action-focused prompt describing ONLY what is in this scene." },
-                presentCharacters: { 
-                  type: Type.ARRAY, 
-                  items: { type: Type.STRING },
-                  description: "Names of characters from the character sheet who appear in this specific scene."
-                }
-              },
-              required: ["id", "originalText", "refinedPrompt", "presentCharacters"]
-            }
-          }
-        },
-        required: ["characters", "visualStyle", "scenes"]
-      }
-    }
-  });
+// Carries the HTTP status so the generation queue can tell rate limits from real failures
+const apiError = (status: number, message: string): Error =>
+  Object.assign(new Error(errorBody(status, message)), { status });
 
-  return JSON.parse(response.text || '{}');
-};
+const TOKEN_KEY = 'visionbulk-api-token';
 
-export const generateImage = async (prompt: string, characterContext: string, globalStyle: string, aspectRatio: string = "16:9"): Promise<string> => {
-  // Use a cleaner prompt structure to prevent character bloat
-  const finalPrompt = `PHOTOREALISTIC CINEMATIC IMAGE.
-  STYLE: ${globalStyle}.
-  ACTIVE CHARACTERS IN THIS SCENE: ${characterContext}.
-  SCENE DESCRIPTION: ${prompt}.
-  TECHNICAL: 8k resolution, ultra-detailed, professional color grading, realistic skin textures, natural lighting.`;
+// The CLI sends VISIONBULK_API_TOKEN from its environment. The browser bundle carries no token:
+// the user enters it when the server asks, and it is kept for the session only.
+const apiToken = (): string | null =>
+  typeof window === 'undefined' ? process.env.VISIONBULK_API_TOKEN ?? null : sessionStorage.getItem(TOKEN_KEY);
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [{ text: finalPrompt }]
-    },
-    config: {
-      imageConfig: {
-        aspectRatio: aspectRatio as any
-      }
-    }
+const post = (path: string, body: unknown, token: string | null): Promise<Response> =>
+  fetch(`${apiBase()}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body)
   });
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
+const callApi = async <T>(path: string, body: unknown, onProgress?: (message: string) => void): Promise<T> => {
+  const token = apiToken();
+  let response = await post(path, body, token);
+  if (response.status === 401 && typeof window !== 'undefined') {
+    // Requests running side by side all get a 401; only the first asks, the rest use its answer
+    let retryToken = apiToken();
+    if (retryToken === token) {
+      retryToken = window.prompt('The VisionBulk server needs an API token. It is kept for this browser session only.')?.trim() || null;
+      if (retryToken) sessionStorage.setItem(TOKEN_KEY, retryToken);
     }
+    if (retryToken && retryToken !== token) response = await post(path, body, retryToken);
   }
+  if (!response.ok || !response.body) {
+    const text = await response.text().catch(() => '');
+    let message = text || response.statusText;
+    try {
+      message = JSON.parse(text).error?.message ?? message;
+    } catch {
+      // Not JSON (e.g. a proxy error page); use the text as is
+    }
+    throw apiError(response.status, message);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as ApiEvent<T>;
+      if (event.type === 'progress') onProgress?.(event.message);
+      // The server's ledger entries go into this process's ledger
+      else if (event.type === 'usage') recordUsage(event.entry);
+      else if (event.type === 'result') return event.data;
+      else if (event.type === 'error') {
+        if (event.analysis) throw new AnalysisError(event.message, event.analysis.problems, event.analysis.partial, event.analysis.rawText);
+        throw apiError(event.status, event.message);
+      }
+    }
+    if (done) break;
+  }
+  throw apiError(502, 'The server closed the connection before sending a result.');
+};
+
+export const analyzeScript = (text: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  const { onStatus, ...rest } = options;
+  const request: AnalyzeRequest = { text, options: rest };
+  return callApi<AnalysisResult>('/api/analyze', request, onStatus);
+};
+
+export const generateImage = (prompt: string, characterContext: string, globalStyle: string, aspectRatio: string = "16:9", references: ReferenceImage[] = [], style?: StylePreset, setting: string = ''): Promise<GeneratedImage> => {
+  const request: GenerateRequest = { prompt, characterContext, globalStyle, aspectRatio, references, style, setting };
+  return callApi<GeneratedImage>('/api/generate', request);
+};
+
+export const editImage = (imageUrl: string, instruction: string, mask: string | null = null, references: ReferenceImage[] = [], aspectRatio: string = "16:9"): Promise<GeneratedImage> => {
+  const request: EditRequest = { imageUrl, instruction, mask, references, aspectRatio };
+  return callApi<GeneratedImage>('/api/edit', request);
+};
+
+export const checkImage = (imageUrl: string, expectation: ConsistencyExpectation): Promise<ConsistencyReport> => {
+  const request: CheckRequest = { imageUrl, expectation };
+  return callApi<ConsistencyReport>('/api/check', request);
+};
 
-  throw new Error("No image data received from API");
+export const geminiProvider: VisionProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  models: GEMINI_MODELS,
+  analyzeScript,
+  generateImage,
+  editImage,
+  checkImage
 };
@@ -0,0 +1,229 @@
+
+// Direct Gemini calls. Only server.ts imports this module, so the API key stays on the server.
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisResult, AnalyzeOptions, ConsistencyExpectation, ConsistencyReport, GeneratedImage, ReferenceImage, StylePreset, Upstream } from "./types";
+import { parseDataUrl } from "./imageUtils";
+import { buildAnalysisStyle, buildEditPrompt, buildImagePrompt, DEFAULT_STYLE_PRESET } from "./stylePresets";
+import { ANALYSIS_MAX_ATTEMPTS, analyzeWithValidation } from "./analysisValidation";
+import { buildCheckPrompt, normalizeCheck } from "./consistencyCheck";
+import { GEMINI_MODELS } from "./apiProtocol";
+import { buildLanguageInstruction } from "./scriptLanguage";
+import { recordUsage, usageEntry } from "./usage";
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so a server in mock upstream mode never needs an API key
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
+  }
+  return client;
+};
+
+// The model can still truncate or stray from this schema, so responses are validated as well
+const ANALYSIS_CONFIG = {
+  responseMimeType: "application/json",
+  responseSchema: {
+    type: Type.OBJECT,
+    properties: {
+      characters: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING, description: "Short stable id, e.g. \"char-ayesha\"." },
+            name: { type: Type.STRING },
+            aliases: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "Other ways the text refers to this character: nicknames, surnames, titles (\"Dr. Khan\")."
+            },
+            description: { type: Type.STRING }
+          },
+          required: ["id", "name", "aliases", "description"]
+        }
+      },
+      locations: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING, description: "Short stable id, e.g. \"loc-night-market\"." },
+            name: { type: Type.STRING },
+            description: { type: Type.STRING, description: "Detailed visual description: layout, architecture, materials, colours, light, set dressing." }
+          },
+          required: ["id", "name", "description"]
+        }
+      },
+      visualStyle: { type: Type.STRING, description: "Detailed description of the visual style shared by every scene" },
+      scenes: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            originalText: { type: Type.STRING },
+            refinedPrompt: { type: Type.STRING, description: "Action-focused prompt describing ONLY what is in this scene." },
+            presentCharacters: { 
+              type: Type.ARRAY, 
+              items: { type: Type.STRING },
+              description: "Ids of characters from the character sheet who appear in this specific scene."
+            },
+            locationId: { type: Type.STRING, description: "Id of the location from the location sheet where this scene takes place." },
+            timeOfDay: { type: Type.STRING },
+            weather: { type: Type.STRING },
+            props: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Objects that must be visible in this scene." },
+            wardrobe: { type: Type.STRING, description: "Wardrobe changes from the character sheet for this scene; empty if none." },
+            shot: { type: Type.STRING, description: "Shot type or camera angle, e.g. \"low-angle wide shot\"." }
+          },
+          required: ["id", "originalText", "refinedPrompt", "presentCharacters", "locationId", "timeOfDay", "shot"]
+        }
+      }
+    },
+    required: ["characters", "locations", "visualStyle", "scenes"]
+  }
+};
+
+export const analyzeScript = async (text: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  const { scenes, style = DEFAULT_STYLE_PRESET, context, knownCharacters = [], knownLocations = [], language, translatePrompts, onStatus } = options;
+  // Pre-split sources (screenplays, subtitles) keep their own scene boundaries
+  const splitInstruction = scenes
+    ? `The text is ALREADY divided into ${scenes.length} scenes marked "=== SCENE n ===". Return exactly ${scenes.length} scenes in the same order with ids "scene-1" to "scene-${scenes.length}". Do not merge, split, drop or reorder them, and copy each scene's text verbatim into "originalText".`
+    : 'Divide the text into specific scenes.';
+  const body = scenes
+    ? scenes.map((s, i) => `=== SCENE ${i + 1} ===${s.characters.length ? ` (speaking: ${s.characters.join(', ')})` : ''}\n${s.text}`).join('\n\n')
+    : text;
+  // Parts of a long script: earlier characters and locations keep their ids, and the previous part's ending is context only
+  const continuity = [
+    knownCharacters.length > 0
+      ? `KNOWN CHARACTERS from earlier parts of the script. Reuse their exact ids and names when they appear; only add characters not listed here:\n${knownCharacters.map(c => `- ${c.id}: ${c.name}${c.aliases?.length ? ` (also ${c.aliases.join(', ')})` : ''}. ${c.description}`).join('\n')}`
+      : '',
+    knownLocations.length > 0
+      ? `KNOWN LOCATIONS from earlier parts of the script. Reuse their exact ids and names when a scene returns to one; only add locations not listed here:\n${knownLocations.map(l => `- ${l.id}: ${l.name}. ${l.description}`).join('\n')}`
+      : '',
+    context
+      ? `PREVIOUS CONTEXT (already analyzed; use it for continuity only and do NOT return scenes for it):\n${context}`
+      : ''
+  ].filter(Boolean).join('\n\n');
+
+  const contents = `Analyze the following script/text:
+    1. Extract a "Character Sheet" with detailed physical descriptions for ALL main characters to ensure visual consistency. Give each character a unique "id" and list every other name the text uses for them in "aliases".
+    2. ${splitInstruction}
+    3. For each scene, identify ONLY the characters that are actually present or active in that specific scene, and list them in "presentCharacters" by id. Resolve nicknames, titles and pronouns to the character they refer to.
+    4. Create a "refinedPrompt" for each scene that strictly describes what is happening. Do NOT include characters who are not in the scene.
+    5. Extract a "Location Sheet" with a detailed visual description of every place the story returns to, so it looks the same in every scene. Give each location a unique "id".
+    6. For each scene, fill in the continuity fields: "locationId" (by id), "timeOfDay", "weather", the "props" that must be visible, "wardrobe" changes from the character sheet (empty if none) and the "shot" type or camera angle. Keep them consistent from scene to scene unless the text changes them.
+    
+    ${buildAnalysisStyle(style)}
+    ${buildLanguageInstruction(language, translatePrompts)}
+    ${continuity ? `\n${continuity}\n` : ''}
+    Text: ${body}`;
+
+  // Rejected responses are retried with the validation problems appended
+  const request = async (feedback: string | null): Promise<string> => {
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODELS.analyze,
+      contents: feedback ? `${contents}\n\n${feedback}` : contents,
+      config: ANALYSIS_CONFIG
+    });
+    recordUsage(usageEntry(GEMINI_MODELS.analyze, 'analyze', response.usageMetadata, 0));
+    return response.text ?? '';
+  };
+
+  return analyzeWithValidation(request, scenes?.length, (attempt, problems) =>
+    onStatus?.(`Response rejected (${problems[0]}); retrying, attempt ${attempt} of ${ANALYSIS_MAX_ATTEMPTS}`));
+};
+
+// Images are sent in order before the text, so the prompt can refer to them as image 1, 2, ...
+const requestImage = async (kind: 'generate' | 'edit', images: string[], finalPrompt: string, aspectRatio: string): Promise<GeneratedImage> => {
+  const response = await getClient().models.generateContent({
+    model: GEMINI_MODELS.image,
+    contents: {
+      parts: [
+        ...images.map(url => ({ inlineData: parseDataUrl(url) })),
+        { text: finalPrompt }
+      ]
+    },
+    config: {
+      imageConfig: {
+        aspectRatio: aspectRatio as any
+      }
+    }
+  });
+
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  // A response without an image is still billed
+  recordUsage(usageEntry(GEMINI_MODELS.image, kind, response.usageMetadata, parts.filter(p => p.inlineData).length));
+  for (const part of parts) {
+    if (part.inlineData) {
+      return { imageUrl: `data:image/png;base64,${part.inlineData.data}`, prompt: finalPrompt };
+    }
+  }
+
+  throw new Error("No image data received from API");
+};
+
+export const generateImage = async (prompt: string, characterContext: string, globalStyle: string, aspectRatio: string = "16:9", references: ReferenceImage[] = [], style: StylePreset = DEFAULT_STYLE_PRESET, setting: string = ''): Promise<GeneratedImage> => {
+  // The preset's template keeps the prompt structure clean to prevent character bloat
+  const finalPrompt = buildImagePrompt(style, { scene: prompt, characters: characterContext, visualStyle: globalStyle, references, setting });
+  return requestImage('generate', references.map(r => r.imageUrl), finalPrompt, aspectRatio);
+};
+
+export const editImage = async (imageUrl: string, instruction: string, mask: string | null = null, references: ReferenceImage[] = [], aspectRatio: string = "16:9"): Promise<GeneratedImage> => {
+  const finalPrompt = buildEditPrompt(instruction, { masked: !!mask, references });
+  return requestImage('edit', [imageUrl, ...(mask ? [mask] : []), ...references.map(r => r.imageUrl)], finalPrompt, aspectRatio);
+};
+
+const CHECK_CONFIG = {
+  responseMimeType: "application/json",
+  responseSchema: {
+    type: Type.OBJECT,
+    properties: {
+      peopleCount: { type: Type.INTEGER, description: "People clearly visible in image 1." },
+      characters: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING, description: "Name of an expected character." },
+            present: { type: Type.BOOLEAN },
+            matchesDescription: { type: Type.BOOLEAN },
+            notes: { type: Type.STRING }
+          },
+          required: ["name", "present", "matchesDescription", "notes"]
+        }
+      },
+      score: { type: Type.INTEGER, description: "0-100." },
+      reasons: { type: Type.ARRAY, items: { type: Type.STRING } }
+    },
+    required: ["peopleCount", "characters", "score", "reasons"]
+  }
+};
+
+export const checkImage = async (imageUrl: string, expectation: ConsistencyExpectation): Promise<ConsistencyReport> => {
+  const response = await getClient().models.generateContent({
+    model: GEMINI_MODELS.check,
+    contents: {
+      parts: [
+        ...[imageUrl, ...expectation.references.map(r => r.imageUrl)].map(url => ({ inlineData: parseDataUrl(url) })),
+        { text: buildCheckPrompt(expectation) }
+      ]
+    },
+    config: CHECK_CONFIG
+  });
+  recordUsage(usageEntry(GEMINI_MODELS.check, 'check', response.usageMetadata, 0));
+  let raw: unknown;
+  try {
+    raw = JSON.parse(response.text ?? '');
+  } catch {
+    throw new Error("The consistency check did not return valid JSON");
+  }
+  return normalizeCheck(typeof raw === 'object' && raw !== null ? raw : {}, expectation);
+};
+
+export const geminiUpstream: Upstream = {
+  analyzeScript,
+  generateImage,
+  editImage,
+  checkImage
+};
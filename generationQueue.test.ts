@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGenerationQueue, describeError, isRetryableError, QueueOptions } from './generationQueue';
+
+const fast: QueueOptions = { concurrency: 2, requestsPerMinute: 0, maxRetries: 2, baseDelayMs: 1 };
+
+test('Gemini error payloads are described and classified', () => {
+  const quota = new Error('{"error":{"code":429,"message":"Quota exceeded","status":"RESOURCE_EXHAUSTED"}}');
+  assert.equal(describeError(quota), '429: Quota exceeded');
+  assert.equal(isRetryableError(quota), true);
+  assert.equal(isRetryableError(Object.assign(new Error('Bad gateway'), { status: 502 })), true);
+  assert.equal(isRetryableError(new Error('{"error":{"code":400,"message":"Invalid argument"}}')), false);
+  assert.equal(describeError(undefined), 'Unknown error');
+});
+
+test('retryable errors are retried with backoff until they succeed', async () => {
+  let calls = 0;
+  const events: string[] = [];
+  const queue = createGenerationQueue<string>(fast, {
+    onRetry: (id, attempt) => events.push(`retry ${id} ${attempt}`),
+    onSuccess: (id, result) => events.push(`ok ${id} ${result}`)
+  });
+  await queue.run([{ id: 'a', run: async () => { if (++calls < 3) throw new Error('503 UNAVAILABLE'); return 'done'; } }]);
+  assert.deepEqual(events, ['retry a 1', 'retry a 2', 'ok a done']);
+  assert.equal(queue.getState(), 'idle');
+});
+
+test('other errors fail the job at once, and retries stop at maxRetries', async () => {
+  const errors: string[] = [];
+  let attempts = 0;
+  const queue = createGenerationQueue<string>(fast, { onError: (id, reason) => errors.push(`${id}: ${reason}`) });
+  await queue.run([
+    { id: 'bad', run: async () => { throw new Error('Invalid prompt'); } },
+    { id: 'busy', run: async () => { attempts++; throw new Error('rate limit'); } }
+  ]);
+  assert.deepEqual(errors.sort(), ['bad: Invalid prompt', 'busy: rate limit']);
+  assert.equal(attempts, fast.maxRetries + 1);
+});
+
+test('jobs never run above the concurrency limit', async () => {
+  let running = 0;
+  let peak = 0;
+  const queue = createGenerationQueue<number>(fast);
+  await queue.run(Array.from({ length: 6 }, (_, i) => ({
+    id: String(i),
+    run: async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return i;
+    }
+  })));
+  assert.equal(peak, fast.concurrency);
+});
+
+test('pause holds new jobs until resume', async () => {
+  const started: string[] = [];
+  const queue = createGenerationQueue<string>({ ...fast, concurrency: 1 }, { onStart: id => started.push(id) });
+  const done = queue.run(['a', 'b'].map(id => ({
+    id,
+    run: async () => {
+      if (id === 'a') queue.pause();
+      return id;
+    }
+  })));
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert.equal(queue.getState(), 'paused');
+  assert.deepEqual(started, ['a']);
+  queue.resume();
+  await done;
+  assert.deepEqual(started, ['a', 'b']);
+});
+
+test('cancel skips the jobs that have not started', async () => {
+  const skipped: string[] = [];
+  const succeeded: string[] = [];
+  const queue = createGenerationQueue<string>({ ...fast, concurrency: 1 }, {
+    onSkip: id => skipped.push(id),
+    onSuccess: id => succeeded.push(id)
+  });
+  await queue.run(['a', 'b', 'c'].map(id => ({
+    id,
+    run: async () => {
+      queue.cancel();
+      return id;
+    }
+  })));
+  assert.deepEqual(succeeded, ['a']);
+  assert.deepEqual(skipped, ['b', 'c']);
+  assert.equal(queue.getState(), 'cancelled');
+});
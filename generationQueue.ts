@@ -0,0 +1,179 @@
+// Job queue for image generation: bounded concurrency, a requests-per-minute
+// budget, exponential backoff for retryable errors, and pause/resume/cancel.
+
+export interface QueueOptions {
+  concurrency: number;
+  requestsPerMinute: number;
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+export interface QueueJob<T> {
+  id: string;
+  run: () => Promise<T>;
+}
+
+export interface QueueHandlers<T> {
+  onStart?: (id: string, attempt: number) => void;
+  onRetry?: (id: string, attempt: number, delayMs: number, reason: string) => void;
+  onSuccess?: (id: string, result: T) => void;
+  onError?: (id: string, reason: string) => void;
+  onSkip?: (id: string) => void;
+}
+
+export type QueueState = 'idle' | 'running' | 'paused' | 'cancelled';
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+  concurrency: 3,
+  requestsPerMinute: 20,
+  maxRetries: 3,
+  baseDelayMs: 2000
+};
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_PATTERN = /RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL|rate limit|quota|overloaded|timed? ?out|fetch failed|network/i;
+
+// Gemini errors often carry a JSON payload as their message: {"error":{"code":429,"message":"..."}}
+const parseErrorPayload = (message: string): { code?: number; message?: string; status?: string } | null => {
+  const start = message.indexOf('{');
+  if (start === -1) return null;
+  try {
+    const payload = JSON.parse(message.slice(start));
+    return payload?.error ?? payload;
+  } catch {
+    return null;
+  }
+};
+
+export const describeError = (error: unknown): string => {
+  const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+  const payload = parseErrorPayload(message);
+  if (payload?.message) {
+    return payload.code ? `${payload.code}: ${payload.message}` : payload.message;
+  }
+  return message || 'Unknown error';
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number' && RETRYABLE_STATUS.has(status)) return true;
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const payload = parseErrorPayload(message);
+  if (payload?.code && RETRYABLE_STATUS.has(payload.code)) return true;
+  return RETRYABLE_PATTERN.test(message);
+};
+
+export const createGenerationQueue = <T,>(options: QueueOptions, handlers: QueueHandlers<T> = {}) => {
+  let state: QueueState = 'idle';
+  const startTimes: number[] = [];
+  const sleepers = new Set<() => void>();
+  const listeners = new Set<(state: QueueState) => void>();
+
+  const setState = (next: QueueState) => {
+    state = next;
+    listeners.forEach(listener => listener(next));
+    // Wake everything that is sleeping so it can re-check the new state
+    [...sleepers].forEach(wake => wake());
+  };
+
+  // Read through a function so TypeScript doesn't narrow `state` across awaits
+  const isCancelled = () => state === 'cancelled';
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const wake = () => {
+      clearTimeout(timer);
+      sleepers.delete(wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    sleepers.add(wake);
+  });
+
+  const waitWhilePaused = async () => {
+    while (state === 'paused') {
+      await sleep(60_000);
+    }
+  };
+
+  // Sliding one-minute window over request start times
+  const acquireSlot = async () => {
+    while (!isCancelled()) {
+      await waitWhilePaused();
+      const now = Date.now();
+      while (startTimes.length > 0 && now - startTimes[0] >= 60_000) startTimes.shift();
+      if (options.requestsPerMinute <= 0 || startTimes.length < options.requestsPerMinute) {
+        startTimes.push(now);
+        return;
+      }
+      await sleep(60_000 - (now - startTimes[0]));
+    }
+  };
+
+  const runJob = async (job: QueueJob<T>) => {
+    for (let attempt = 1; ; attempt++) {
+      await acquireSlot();
+      if (isCancelled()) {
+        handlers.onSkip?.(job.id);
+        return;
+      }
+      handlers.onStart?.(job.id, attempt);
+      try {
+        // Awaited outside the optional call, which would skip job.run() when there is no onSuccess
+        const result = await job.run();
+        handlers.onSuccess?.(job.id, result);
+        return;
+      } catch (error) {
+        const reason = describeError(error);
+        if (attempt > options.maxRetries || !isRetryableError(error) || isCancelled()) {
+          handlers.onError?.(job.id, reason);
+          return;
+        }
+        const delayMs = options.baseDelayMs * 2 ** (attempt - 1) + Math.floor(Math.random() * 250);
+        handlers.onRetry?.(job.id, attempt, delayMs, reason);
+        await sleep(delayMs);
+      }
+    }
+  };
+
+  const run = async (jobs: QueueJob<T>[]) => {
+    const pending = [...jobs];
+    setState('running');
+    const worker = async () => {
+      while (pending.length > 0) {
+        await waitWhilePaused();
+        const job = pending.shift();
+        if (!job) break;
+        if (isCancelled()) {
+          handlers.onSkip?.(job.id);
+          continue;
+        }
+        await runJob(job);
+      }
+    };
+    const workers = Array.from({ length: Math.max(1, Math.min(options.concurrency, jobs.length)) }, worker);
+    await Promise.all(workers);
+    if (!isCancelled()) setState('idle');
+  };
+
+  return {
+    run,
+    pause: () => {
+      if (state === 'running') setState('paused');
+    },
+    resume: () => {
+      if (state === 'paused') setState('running');
+    },
+    cancel: () => {
+      if (state === 'running' || state === 'paused') setState('cancelled');
+    },
+    getState: () => state,
+    // For jobs that pause the queue themselves (e.g. at a budget cap) and wait to be resumed
+    waitWhilePaused,
+    subscribe: (listener: (state: QueueState) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type GenerationQueue<T> = ReturnType<typeof createGenerationQueue<T>>;
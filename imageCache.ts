@@ -0,0 +1,148 @@
+import { GeneratedImage, ReferenceImage, StylePreset } from "./types";
+import { blobToDataUrl, dataUrlToBlob } from "./projectStore";
+
+// Generated images keyed by a hash of everything that goes into the image request, so a
+// re-run only pays for scenes whose prompt, cast, style or references actually changed.
+// The browser keeps the cache in IndexedDB; the CLI uses the disk cache in diskImageCache.ts.
+
+export interface ImageCache {
+  get: (key: string) => Promise<GeneratedImage | null>;
+  has: (key: string) => Promise<boolean>; // Without loading the image or marking it used, e.g. for cost estimates
+  put: (key: string, image: GeneratedImage) => Promise<void>;
+  stats: () => Promise<ImageCacheStats>;
+  clear: () => Promise<void>;
+}
+
+export interface ImageCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+export interface ImageCacheEntry {
+  key: string;
+  bytes: number;
+  lastUsed: number;
+}
+
+export interface ImageRequest {
+  providerId: string;
+  prompt: string;
+  characterContext: string;
+  globalStyle: string;
+  aspectRatio: string;
+  references: ReferenceImage[];
+  style: StylePreset;
+  setting?: string; // Left out when empty so keys from before the location sheet still match
+  variation: number; // Take number within a batch, so variations don't all hit the same entry
+}
+
+export const DEFAULT_CACHE_MAX_BYTES = 500 * 1024 * 1024;
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Only the preset fields that shape the image prompt count; renaming a preset keeps its cache
+export const imageCacheKey = (request: ImageRequest): Promise<string> => {
+  const { style, references, ...rest } = request;
+  return sha256(JSON.stringify({
+    ...rest,
+    style: { style: style.style, imageTemplate: style.imageTemplate, negativePrompt: style.negativePrompt },
+    references: references.map(r => [r.label, r.imageUrl])
+  }));
+};
+
+// Least recently used entries to drop until the rest fits in maxBytes
+export const pickEvictions = (entries: ImageCacheEntry[], maxBytes: number): string[] => {
+  let total = entries.reduce((sum, e) => sum + e.bytes, 0);
+  const evicted: string[] = [];
+  for (const entry of [...entries].sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= maxBytes) break;
+    total -= entry.bytes;
+    evicted.push(entry.key);
+  }
+  return evicted;
+};
+
+// Kept apart from the projects database so clearing the cache never touches saved work
+const DB_NAME = 'visionbulk-image-cache';
+const DB_VERSION = 1;
+const ENTRIES = 'entries'; // ImageCacheEntry, read on every eviction check
+const IMAGES = 'images'; // { key, blob, prompt }
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(ENTRIES)) db.createObjectStore(ENTRIES, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES, { keyPath: 'key' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T,>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const done = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const createBrowserImageCache = (maxBytes: number = DEFAULT_CACHE_MAX_BYTES): ImageCache => ({
+  get: async (key) => {
+    const db = await openDb();
+    const tx = db.transaction([ENTRIES, IMAGES], 'readwrite');
+    const stored = await promisify<{ blob: Blob; prompt: string } | undefined>(tx.objectStore(IMAGES).get(key));
+    const entry = await promisify<ImageCacheEntry | undefined>(tx.objectStore(ENTRIES).get(key));
+    if (!stored || !entry) return null;
+    tx.objectStore(ENTRIES).put({ ...entry, lastUsed: Date.now() });
+    await done(tx);
+    return { imageUrl: await blobToDataUrl(stored.blob), prompt: stored.prompt };
+  },
+
+  has: async (key) => {
+    const db = await openDb();
+    return (await promisify<number>(db.transaction(ENTRIES).objectStore(ENTRIES).count(key))) > 0;
+  },
+
+  put: async (key, image) => {
+    const db = await openDb();
+    const blob = dataUrlToBlob(image.imageUrl);
+    const tx = db.transaction([ENTRIES, IMAGES], 'readwrite');
+    const entries = tx.objectStore(ENTRIES);
+    entries.put({ key, bytes: blob.size, lastUsed: Date.now() } as ImageCacheEntry);
+    tx.objectStore(IMAGES).put({ key, blob, prompt: image.prompt });
+    for (const evicted of pickEvictions(await promisify<ImageCacheEntry[]>(entries.getAll()), maxBytes)) {
+      entries.delete(evicted);
+      tx.objectStore(IMAGES).delete(evicted);
+    }
+    await done(tx);
+  },
+
+  stats: async () => {
+    const db = await openDb();
+    const entries = await promisify<ImageCacheEntry[]>(db.transaction(ENTRIES).objectStore(ENTRIES).getAll());
+    return { entries: entries.length, bytes: entries.reduce((sum, e) => sum + e.bytes, 0), maxBytes };
+  },
+
+  clear: async () => {
+    const db = await openDb();
+    const tx = db.transaction([ENTRIES, IMAGES], 'readwrite');
+    tx.objectStore(ENTRIES).clear();
+    tx.objectStore(IMAGES).clear();
+    await done(tx);
+  }
+});
@@ -0,0 +1,146 @@
+import { AnalysisResult, OutputFormat, OutputOptions, ScenePrompt } from "./types";
+import { frameSize, isExportable } from "./exporters";
+import { loadImage, parseDataUrl, wrapText } from "./imageUtils";
+import { textDirection } from "./scriptLanguage";
+
+// Post-processing for downloads: format and quality, target size per aspect ratio, a burned-in
+// caption and a watermark. Runs on a canvas in the browser when images are exported; the
+// images kept in the project are never changed.
+
+const MIME_TYPES: Record<OutputFormat, string> = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+const sizesFrom = (scale: number) => Object.fromEntries(
+  ['16:9', '9:16', '1:1', '4:3', '3:4'].map(ratio => {
+    const [width, height] = frameSize(ratio);
+    return [ratio, { width: Math.round(width * scale), height: Math.round(height * scale) }];
+  })
+);
+
+const NO_OVERLAYS = { caption: 'none', watermarkText: '', watermarkImage: null, watermarkOpacity: 0.6 } as const;
+
+export const OUTPUT_PRESETS: { name: string; options: OutputOptions }[] = [
+  {
+    name: 'Original PNG',
+    options: { presetId: 'original', format: 'png', quality: 100, resize: 'original', sizes: sizesFrom(1), ...NO_OVERLAYS }
+  },
+  {
+    name: 'Full HD JPEG',
+    options: { presetId: 'full-hd', format: 'jpeg', quality: 90, resize: 'crop', sizes: sizesFrom(1), ...NO_OVERLAYS }
+  },
+  {
+    name: 'Web (WebP, 720p)',
+    options: { presetId: 'web', format: 'webp', quality: 80, resize: 'fit', sizes: sizesFrom(2 / 3), ...NO_OVERLAYS }
+  },
+  {
+    name: 'Social (captioned JPEG)',
+    options: { presetId: 'social', format: 'jpeg', quality: 88, resize: 'crop', sizes: sizesFrom(1), ...NO_OVERLAYS, caption: 'text' }
+  }
+];
+
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = OUTPUT_PRESETS[0].options;
+
+// Original PNGs go out byte for byte
+const isPassThrough = (options: OutputOptions, mimeType: string): boolean =>
+  MIME_TYPES[options.format] === mimeType && options.resize === 'original' && options.caption === 'none'
+  && !options.watermarkText.trim() && !options.watermarkImage;
+
+export const targetSize = (options: OutputOptions, aspectRatio: string): { width: number; height: number } => {
+  const [width, height] = frameSize(aspectRatio);
+  return options.sizes[aspectRatio] ?? { width, height };
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number): number => {
+  const fontSize = Math.round(Math.min(width, height) * 0.045);
+  const padding = Math.round(fontSize * 0.8);
+  const lineHeight = fontSize * 1.3;
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  const lines = wrapText(ctx, text.replace(/\s+/g, ' '), width - padding * 2);
+  const clipped = lines.length > 3 ? [...lines.slice(0, 2), `${lines[2]}…`] : lines;
+  const bandHeight = clipped.length * lineHeight + padding * 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - bandHeight, width, bandHeight);
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.direction = textDirection(text);
+  clipped.forEach((line, i) => ctx.fillText(line, width / 2, height - bandHeight + padding + (i + 0.5) * lineHeight));
+  return bandHeight;
+};
+
+// Bottom-right corner, above the caption band: the logo, with the text to its left
+const drawWatermark = async (ctx: CanvasRenderingContext2D, options: OutputOptions, width: number, bottom: number) => {
+  const margin = Math.round(Math.min(width, bottom) * 0.03);
+  let right = width - margin;
+  ctx.globalAlpha = Math.min(1, Math.max(0, options.watermarkOpacity));
+  if (options.watermarkImage) {
+    const logo = await loadImage(options.watermarkImage);
+    const logoWidth = width * 0.12;
+    const logoHeight = logoWidth * logo.naturalHeight / logo.naturalWidth;
+    ctx.drawImage(logo, right - logoWidth, bottom - margin - logoHeight, logoWidth, logoHeight);
+    right -= logoWidth + margin / 2;
+  }
+  const text = options.watermarkText.trim();
+  if (text) {
+    const fontSize = Math.round(Math.min(width, bottom) * 0.035);
+    ctx.font = `700 ${fontSize}px sans-serif`;
+    ctx.fillStyle = '#fff';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = fontSize / 4;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.direction = 'ltr';
+    ctx.fillText(text, right, bottom - margin);
+  }
+  ctx.globalAlpha = 1;
+  ctx.shadowBlur = 0;
+};
+
+// One scene's image as it should be downloaded. index is the 1-based scene number.
+export const processImage = async (imageUrl: string, scene: { index: number; originalText: string }, aspectRatio: string, options: OutputOptions): Promise<string> => {
+  if (isPassThrough(options, parseDataUrl(imageUrl).mimeType)) return imageUrl;
+  const img = await loadImage(imageUrl);
+  const target = targetSize(options, aspectRatio);
+  const fit = Math.min(target.width / img.naturalWidth, target.height / img.naturalHeight);
+  const fill = Math.max(target.width / img.naturalWidth, target.height / img.naturalHeight);
+  const canvas = document.createElement('canvas');
+  if (options.resize === 'crop') {
+    canvas.width = target.width;
+    canvas.height = target.height;
+  } else {
+    const scale = options.resize === 'fit' ? fit : 1;
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+  }
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no transparency; give transparent images a white background rather than black
+  if (options.format === 'jpeg') {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  if (options.resize === 'crop') {
+    const width = img.naturalWidth * fill;
+    const height = img.naturalHeight * fill;
+    ctx.drawImage(img, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+  } else {
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  }
+
+  const caption = options.caption === 'text' ? scene.originalText.trim() : options.caption === 'number' ? `Scene ${scene.index}` : '';
+  const bandHeight = caption ? drawCaption(ctx, caption, canvas.width, canvas.height) : 0;
+  if (options.watermarkText.trim() || options.watermarkImage) await drawWatermark(ctx, options, canvas.width, canvas.height - bandHeight);
+
+  // Browsers without a WebP encoder return PNG; the file name follows whatever came back
+  return canvas.toDataURL(MIME_TYPES[options.format], Math.min(1, Math.max(0.01, options.quality / 100)));
+};
+
+// A copy of the storyboard with every exportable image processed, for the ZIP and its manifests
+export const processStoryboard = async (analysis: AnalysisResult, aspectRatio: string, options: OutputOptions): Promise<AnalysisResult> => {
+  const scenes: ScenePrompt[] = [];
+  for (const [i, scene] of analysis.scenes.entries()) {
+    scenes.push(isExportable(scene)
+      ? { ...scene, imageUrl: await processImage(scene.imageUrl!, { index: i + 1, originalText: scene.originalText }, aspectRatio, options) }
+      : scene);
+  }
+  return { ...analysis, scenes };
+};
@@ -0,0 +1,57 @@
+// Browser-side image helpers shared by uploads and exports.
+
+export const MAX_REFERENCE_SIZE = 1024;
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const [meta, data] = dataUrl.split(',');
+  return { mimeType: meta.match(/^data:([^;]+)/)?.[1] || 'image/png', data: data ?? '' };
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not decode image'));
+  img.src = src;
+});
+
+const readAsDataUrl = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Reads an uploaded image and scales it down so reference images stay small enough to send inline.
+// Scaled images are re-encoded as `type`; PNG keeps transparency, e.g. for a watermark logo.
+export const readImageFile = async (file: File, maxSize: number = MAX_REFERENCE_SIZE, type: 'image/jpeg' | 'image/png' = 'image/jpeg'): Promise<string> => {
+  const original = await readAsDataUrl(file);
+  const img = await loadImage(original);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  if (scale === 1 && /^data:image\/(png|jpeg|webp)/.test(original)) return original;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL(type, 0.9);
+};
+
+// Lines of text that fit a canvas width: the longest prefix that fits, broken at a space when there
+// is one. Scripts written without spaces break anywhere.
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let rest = text.trim();
+  while (rest) {
+    let low = 1;
+    let high = rest.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (ctx.measureText(rest.slice(0, mid)).width <= width) low = mid;
+      else high = mid - 1;
+    }
+    const space = low < rest.length ? rest.lastIndexOf(' ', low) : -1;
+    const end = space > 0 ? space : low;
+    lines.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  return lines;
+};
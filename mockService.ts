@@ -0,0 +1,332 @@
+import { AnalysisResult, AnalyzeOptions, CharacterInfo, ConsistencyExpectation, ConsistencyReport, GeneratedImage, LocationInfo, ReferenceImage, ScenePrompt, StylePreset, UsageKind, VisionProvider } from "./types";
+import { buildEditPrompt, buildImagePrompt, DEFAULT_STYLE_PRESET } from "./stylePresets";
+import { assignCharacterIds, assignLocationIds } from "./characterResolver";
+import { buildCheckPrompt, normalizeCheck } from "./consistencyCheck";
+import { CHECK_OUTPUT_TOKENS, estimateTokens, IMAGE_INPUT_TOKENS, IMAGE_OUTPUT_TOKENS, recordUsage } from "./usage";
+
+// Deterministic, network-free provider for demos, local development and tests.
+// Same input always yields the same analysis and the same placeholder images.
+
+const NON_NAMES = new Set([
+  'A', 'After', 'Again', 'All', 'Also', 'An', 'And', 'As', 'At', 'Before', 'But', 'By', 'Day', 'During',
+  'Each', 'Eventually', 'Everyone', 'Ext', 'Finally', 'First', 'For', 'From', 'He', 'Her', 'Here', 'His',
+  'I', 'If', 'In', 'Inside', 'Int', 'Is', 'It', 'Its', 'Later', 'Meanwhile', 'My', 'Next', 'Night', 'No',
+  'Nobody', 'Now', 'Of', 'On', 'Once', 'One', 'Only', 'Or', 'Our', 'Outside', 'Scene', 'She', 'So',
+  'Someone', 'Soon', 'Suddenly', 'That', 'The', 'Their', 'Then', 'There', 'These', 'They', 'This', 'To',
+  'Two', 'We', 'What', 'When', 'Where', 'While', 'With', 'Yes', 'You', 'Your'
+]);
+
+const HAIR = ['short black', 'long dark brown', 'curly auburn', 'silver grey', 'shoulder-length blonde', 'cropped red'];
+const BUILD = ['slim', 'tall and broad-shouldered', 'petite', 'athletic', 'stocky', 'lanky'];
+const OUTFIT = ['a navy overcoat', 'a white kurta', 'a leather jacket', 'a green hoodie', 'a grey business suit', 'a mustard sweater'];
+
+const PLACES = [
+  'living room', 'kitchen', 'bedroom', 'office', 'apartment', 'house', 'rooftop', 'alley', 'street', 'market',
+  'shop', 'cafe', 'restaurant', 'bar', 'school', 'classroom', 'library', 'hospital', 'station', 'train', 'car',
+  'airport', 'warehouse', 'courtyard', 'garden', 'park', 'forest', 'field', 'river', 'bridge', 'beach', 'village'
+];
+const TIMES = ['dawn', 'morning', 'noon', 'afternoon', 'evening', 'dusk', 'night'];
+const WEATHER = ['rain', 'snow', 'fog', 'storm', 'wind', 'sunshine'];
+const SHOTS = ['medium shot', 'close-up', 'over-the-shoulder shot', 'low-angle shot', 'high-angle wide shot'];
+const MATERIAL = ['weathered brick', 'pale plaster', 'dark timber', 'polished concrete', 'painted tile', 'rough stone'];
+const LIGHT = ['warm tungsten light', 'cool fluorescent light', 'soft window light', 'hard overhead light', 'flickering neon'];
+
+const MOCK_DELAY_MS = 250;
+const MOCK_MODEL = 'offline-mock';
+
+const hash = (input: string): number => {
+  // FNV-1a, 32 bit
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Usage shaped like Gemini's, so cost tracking can be tried offline by pricing "offline-mock"
+const record = (kind: UsageKind, inputTokens: number, outputTokens: number, images: number) =>
+  recordUsage({ model: MOCK_MODEL, kind, inputTokens, outputTokens, images, at: Date.now() });
+
+const pick = <T,>(list: T[], seed: number): T => list[seed % list.length];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const splitScenes = (text: string): string[] => {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  if (paragraphs.length > 1) return paragraphs;
+  return (text.match(/[^.!?]+[.!?]*/g) || []).map(s => s.trim()).filter(Boolean);
+};
+
+const findNames = (text: string): string[] => {
+  const names: string[] = [];
+  for (const match of text.match(/\b[A-Z][a-z]+\b/g) || []) {
+    if (!NON_NAMES.has(match) && !names.includes(match)) names.push(match);
+  }
+  return names;
+};
+
+const describe = (name: string): string => {
+  const seed = hash(name);
+  return `${pick(BUILD, seed)} person with ${pick(HAIR, seed >>> 3)} hair, wearing ${pick(OUTFIT, seed >>> 7)}`;
+};
+
+const capitalize = (text: string): string => text.replace(/\b\p{L}/gu, c => c.toUpperCase());
+
+const firstWord = (text: string, words: string[]): string | undefined => {
+  const lower = text.toLowerCase();
+  return words
+    .map(word => ({ word, at: lower.search(new RegExp(`\\b${word}\\b`)) }))
+    .filter(m => m.at !== -1)
+    .sort((a, b) => a.at - b.at)[0]?.word;
+};
+
+// A screenplay slugline names the place; otherwise the first place word in the text does
+const findPlace = (segment: string): string | undefined => {
+  const slugline = /^\s*(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]+([^\n-]+)/i.exec(segment)?.[1]?.trim();
+  if (slugline) return capitalize(slugline.toLowerCase());
+  const word = firstWord(segment, PLACES);
+  return word && capitalize(word);
+};
+
+const describePlace = (name: string): string => {
+  const seed = hash(name);
+  return `${name.toLowerCase()} with ${pick(MATERIAL, seed)} walls, ${pick(LIGHT, seed >>> 5)} and sparse set dressing`;
+};
+
+export const analyzeScript = async (text: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  await wait(MOCK_DELAY_MS);
+  const cues = options.scenes?.flatMap(s => s.characters) ?? [];
+  const characters: CharacterInfo[] = assignCharacterIds([...new Set([...cues, ...findNames(text)])].map(name => ({ id: '', name, description: describe(name) })));
+  const segments = options.scenes?.map(s => s.text) ?? splitScenes(text);
+  const places = segments.map(findPlace);
+  const locations: LocationInfo[] = assignLocationIds([...new Set(places.filter((p): p is string => !!p))].map(name => ({ id: '', name, description: describePlace(name) })));
+  // Scenes that name no place stay where the previous one was, as do time of day and weather
+  let location: LocationInfo | undefined;
+  let timeOfDay: string | undefined;
+  let weather: string | undefined;
+  const scenes: ScenePrompt[] = segments.map((segment, i) => {
+    const named = [...(options.scenes?.[i]?.characters ?? []), ...findNames(segment)];
+    const cast = characters.filter(c => named.includes(c.name));
+    location = locations.find(l => l.name === places[i]) ?? location;
+    timeOfDay = firstWord(segment, TIMES) ?? timeOfDay;
+    weather = firstWord(segment, WEATHER) ?? weather;
+    return {
+      id: `scene-${i + 1}`,
+      originalText: segment,
+      refinedPrompt: cast.length > 0
+        ? `${cast.map(c => c.name).join(' and ')} in frame. ${segment}`
+        : `Establishing shot. ${segment}`,
+      // Character ids, like the real analysis returns
+      presentCharacters: cast.map(c => c.id),
+      continuity: {
+        locationId: location?.id,
+        timeOfDay,
+        weather,
+        shot: i === 0 || cast.length === 0 ? 'wide establishing shot' : pick(SHOTS, hash(segment))
+      },
+      status: 'pending'
+    };
+  });
+  const result = {
+    characters,
+    locations,
+    visualStyle: `Offline placeholder render of ${(options.style ?? DEFAULT_STYLE_PRESET).name}, flat colour blocks`,
+    scenes
+  };
+  record('analyze', estimateTokens(text), estimateTokens(JSON.stringify(result)), 0);
+  return result;
+};
+
+// --- Minimal PNG encoder (uncompressed deflate) so placeholders work in browser and Node alike ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const u32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+const chunk = (type: string, data: Uint8Array): number[] => {
+  const body = new Uint8Array(4 + data.length);
+  for (let i = 0; i < 4; i++) body[i] = type.charCodeAt(i);
+  body.set(data, 4);
+  return [...u32(data.length), ...body, ...u32(crc32(body))];
+};
+
+const zlibStored = (raw: Uint8Array): Uint8Array => {
+  const out: number[] = [0x78, 0x01];
+  for (let offset = 0; offset < raw.length; offset += 0xffff) {
+    const block = raw.subarray(offset, offset + 0xffff);
+    const final = offset + 0xffff >= raw.length ? 1 : 0;
+    out.push(final, block.length & 0xff, block.length >>> 8, ~block.length & 0xff, (~block.length >>> 8) & 0xff);
+    for (let i = 0; i < block.length; i++) out.push(block[i]);
+    if (final) break;
+  }
+  out.push(...u32(adler32(raw)));
+  return new Uint8Array(out);
+};
+
+const encodePng = (width: number, height: number, rgb: (x: number, y: number) => [number, number, number]): Uint8Array => {
+  const raw = new Uint8Array((width * 3 + 1) * height);
+  let p = 0;
+  for (let y = 0; y < height; y++) {
+    raw[p++] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = rgb(x, y);
+      raw[p++] = r;
+      raw[p++] = g;
+      raw[p++] = b;
+    }
+  }
+  const ihdr = new Uint8Array([...u32(width), ...u32(height), 8, 2, 0, 0, 0]);
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk('IHDR', ihdr),
+    ...chunk('IDAT', zlibStored(raw)),
+    ...chunk('IEND', new Uint8Array(0))
+  ]);
+};
+
+// Reads back the mock's own PNGs (8-bit RGB, stored deflate); anything else yields null
+const decodePng = (bytes: Uint8Array): { width: number; height: number; rgb: (x: number, y: number) => [number, number, number] } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  const idat: number[] = [];
+  for (let p = 8; p + 8 <= bytes.length;) {
+    const length = view.getUint32(p);
+    const type = String.fromCharCode(...bytes.subarray(p + 4, p + 8));
+    const data = bytes.subarray(p + 8, p + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(p + 8);
+      height = view.getUint32(p + 12);
+      if (data[8] !== 8 || data[9] !== 2) return null;
+    } else if (type === 'IDAT') {
+      idat.push(...data);
+    }
+    p += 12 + length;
+  }
+  const raw: number[] = [];
+  for (let p = 2; p < idat.length;) {
+    const header = idat[p];
+    if ((header & 0b110) !== 0) return null; // Compressed block
+    const length = idat[p + 1] | (idat[p + 2] << 8);
+    raw.push(...idat.slice(p + 5, p + 5 + length));
+    p += 5 + length;
+    if (header & 1) break;
+  }
+  if (!width || raw.length < (width * 3 + 1) * height) return null;
+  return {
+    width,
+    height,
+    rgb: (x, y) => {
+      const i = y * (width * 3 + 1) + 1 + x * 3;
+      return [raw[i], raw[i + 1], raw[i + 2]];
+    }
+  };
+};
+
+const fromBase64 = (data: string): Uint8Array => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const dimensions = (aspectRatio: string): [number, number] => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longSide = 192;
+  if (!w || !h) return [longSide, longSide];
+  return w >= h ? [longSide, Math.round(longSide * h / w)] : [Math.round(longSide * w / h), longSide];
+};
+
+const colour = (seed: number): [number, number, number] => [40 + (seed & 0x7f), 40 + ((seed >>> 8) & 0x7f), 40 + ((seed >>> 16) & 0x7f)];
+
+export const generateImage = async (prompt: string, characterContext: string, globalStyle: string, aspectRatio: string = "16:9", references: ReferenceImage[] = [], style: StylePreset = DEFAULT_STYLE_PRESET, setting: string = ''): Promise<GeneratedImage> => {
+  await wait(MOCK_DELAY_MS);
+  const finalPrompt = buildImagePrompt(style, { scene: prompt, characters: characterContext, visualStyle: globalStyle, references, setting });
+  const [width, height] = dimensions(aspectRatio);
+  // Switching presets visibly changes the placeholder palette
+  const background = colour(hash(`${style.style}|${globalStyle}|${prompt}`));
+  // The sky band follows the setting, so scenes in the same place share it
+  const sky = setting ? colour(hash(setting.split('.')[0])) : background.map(v => Math.min(255, v + 40)) as [number, number, number];
+  // One vertical band per character in the scene, coloured by that character's description
+  const bands = characterContext.split(';').map(c => c.trim()).filter(c => c && c !== 'No specific character').map(c => colour(hash(c)));
+  const bandWidth = Math.max(1, Math.floor(width / (bands.length * 2 + 1)));
+  // A frame marks renders that received reference images
+  const frame = references.length > 0 ? colour(hash(references.map(r => r.label).join('|'))) : null;
+
+  const png = encodePng(width, height, (x, y) => {
+    if (frame && (x < 3 || y < 3 || x >= width - 3 || y >= height - 3)) return frame;
+    const slot = Math.floor(x / bandWidth);
+    if (slot % 2 === 1 && (slot - 1) / 2 < bands.length && y > height / 3) {
+      return bands[(slot - 1) / 2];
+    }
+    return y < height / 3 ? sky : background;
+  });
+  record('generate', estimateTokens(finalPrompt) + references.length * IMAGE_INPUT_TOKENS, IMAGE_OUTPUT_TOKENS, 1);
+  return { imageUrl: `data:image/png;base64,${toBase64(png)}`, prompt: finalPrompt };
+};
+
+// Tints the image towards a colour picked by the instruction. The mock can't read masks, so the whole image changes.
+export const editImage = async (imageUrl: string, instruction: string, mask: string | null = null, references: ReferenceImage[] = [], aspectRatio: string = "16:9"): Promise<GeneratedImage> => {
+  await wait(MOCK_DELAY_MS);
+  const finalPrompt = buildEditPrompt(instruction, { masked: !!mask, references });
+  const source = decodePng(fromBase64(imageUrl.split(',')[1] ?? ''));
+  const [width, height] = source ? [source.width, source.height] : dimensions(aspectRatio);
+  const tint = colour(hash(instruction.trim().toLowerCase()));
+  const png = encodePng(width, height, (x, y) => {
+    const base = source ? source.rgb(x, y) : tint;
+    return base.map((v, i) => Math.round(v * 0.6 + tint[i] * 0.4)) as [number, number, number];
+  });
+  record('edit', estimateTokens(finalPrompt) + (1 + (mask ? 1 : 0) + references.length) * IMAGE_INPUT_TOKENS, IMAGE_OUTPUT_TOKENS, 1);
+  return { imageUrl: `data:image/png;base64,${toBase64(png)}`, prompt: finalPrompt };
+};
+
+// Sees the expected cast, with a score that varies per image so some scenes fall below the threshold
+export const checkImage = async (imageUrl: string, expectation: ConsistencyExpectation): Promise<ConsistencyReport> => {
+  await wait(MOCK_DELAY_MS);
+  const seed = hash(imageUrl);
+  record('check', estimateTokens(buildCheckPrompt(expectation)) + (1 + expectation.references.length) * IMAGE_INPUT_TOKENS, CHECK_OUTPUT_TOKENS, 0);
+  return normalizeCheck({
+    peopleCount: expectation.characters.length,
+    characters: expectation.characters.map(c => ({ name: c.name, present: true, matchesDescription: true, notes: '' })),
+    score: 50 + (seed % 51),
+    reasons: seed % 51 < 20 ? ['Placeholder render scored low by the offline mock'] : []
+  }, expectation);
+};
+
+export const mockProvider: VisionProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  models: { analyze: MOCK_MODEL, image: MOCK_MODEL, check: MOCK_MODEL },
+  analyzeScript,
+  generateImage,
+  editImage,
+  checkImage
+};
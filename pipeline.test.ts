@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applySceneChange, createGenerationRun, estimateGenerationCost, GenerationRunConfig } from './pipeline';
+import { mockProvider } from './mockService';
+import { DEFAULT_STYLE_PRESET } from './stylePresets';
+import { ImageCache } from './imageCache';
+import { AnalysisResult, PriceTable } from './types';
+
+// Every mock image costs 4 cents and checks are free, so totals are easy to follow
+const prices: PriceTable = { 'offline-mock': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 } };
+
+const analysis: AnalysisResult = {
+  characters: [],
+  visualStyle: 'ink',
+  scenes: ['One', 'Two', 'Three'].map((text, i) => ({ id: `scene-${i + 1}`, originalText: text, refinedPrompt: text, presentCharacters: [], status: 'pending' }))
+};
+
+const config: GenerationRunConfig = {
+  provider: mockProvider,
+  analysis,
+  scenes: analysis.scenes,
+  aspectRatio: '1:1',
+  style: DEFAULT_STYLE_PRESET,
+  variations: 1,
+  queueOptions: { concurrency: 1, requestsPerMinute: 0, maxRetries: 0, baseDelayMs: 1 },
+  prices
+};
+
+const near = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+test('the estimate counts every variation and leaves out cached takes', async () => {
+  let lookups = 0;
+  const cache = { has: async () => ++lookups === 1 } as unknown as ImageCache;
+  const estimate = await estimateGenerationCost({ ...config, variations: 2, cache });
+  assert.deepEqual({ images: estimate.images, cached: estimate.cached }, { images: 5, cached: 1 });
+  near(estimate.expected, 0.2);
+  near(estimate.max, 0.2);
+  assert.equal((await estimateGenerationCost({ ...config, variations: 2, cache, forceRegenerate: true })).cached, 0);
+});
+
+test('with QA on, the maximum covers every allowed regeneration', async () => {
+  const estimate = await estimateGenerationCost({ ...config, qa: { enabled: true, threshold: 70, maxRegenerations: 2 } });
+  near(estimate.expected, 0.12);
+  near(estimate.max, 0.36);
+});
+
+test('a run pauses before the call that would go over its cap and goes on once it is raised', async () => {
+  let scenes = analysis;
+  const reached: [number, number][] = [];
+  const generation = createGenerationRun({ ...config, budgetCap: 0.1 }, {
+    onSceneChange: (id, update) => { scenes = applySceneChange(scenes, id, update); },
+    onBudgetReached: (spent, cap) => {
+      reached.push([spent, cap]);
+      // Raised a moment later, as from the UI
+      setTimeout(() => {
+        generation.setBudgetCap(null);
+        generation.queue.resume();
+      }, 10);
+    }
+  });
+  await generation.run();
+  assert.equal(reached.length, 1);
+  near(reached[0][0], 0.08);
+  assert.equal(reached[0][1], 0.1);
+  assert.deepEqual(scenes.scenes.map(s => s.status), ['completed', 'completed', 'completed']);
+});
+
+test('cancelling at the cap fails the held scene without spending more', async () => {
+  let scenes = analysis;
+  let spent = 0;
+  const generation = createGenerationRun({ ...config, budgetCap: 0.05 }, {
+    onSceneChange: (id, update) => { scenes = applySceneChange(scenes, id, update); },
+    onUsage: totals => { spent = totals.cost; },
+    onBudgetReached: () => setTimeout(() => generation.queue.cancel(), 10)
+  });
+  await generation.run();
+  near(spent, 0.04);
+  assert.deepEqual(scenes.scenes.map(s => s.status), ['completed', 'error', 'pending']);
+  assert.match(scenes.scenes[1].error ?? '', /budget cap of \$0\.050/);
+});
@@ -0,0 +1,304 @@
+import { AnalysisResult, ConsistencyExpectation, ConsistencyReport, GeneratedImage, ImportedScript, PriceTable, QaOptions, ScenePrompt, SceneTake, SourceScene, StylePreset, VisionProvider } from "./types";
+import { AnalysisProgress, analyzeInChunks } from "./chunkedAnalysis";
+import { resolveAnalysis } from "./characterResolver";
+import { alignToSourceScenes } from "./scriptImporters";
+import { buildCharacterContext, buildReferences, buildSettingContext } from "./characterContext";
+import { createGenerationQueue, GenerationQueue, QueueOptions } from "./generationQueue";
+import { addTake, createId, selectTake } from "./sceneEditing";
+import { ImageCache, imageCacheKey, ImageRequest } from "./imageCache";
+import { buildCheckPrompt, buildExpectation } from "./consistencyCheck";
+import { buildEditPrompt, buildImagePrompt } from "./stylePresets";
+import { detectLanguage } from "./scriptLanguage";
+import { addUsage, callCost, CHECK_OUTPUT_TOKENS, DEFAULT_PRICES, EMPTY_TOTALS, estimateTokens, formatCost, IMAGE_INPUT_TOKENS, IMAGE_OUTPUT_TOKENS, onUsage, UsageTotals } from "./usage";
+
+// The analyze -> resolve characters -> generate pipeline, free of React and the DOM so the
+// web app and the CLI drive exactly the same steps. State lives with the caller: every
+// scene change is reported as an update function to apply to the caller's copy.
+
+export interface AnalyzeStepOptions {
+  source?: ImportedScript | null;
+  style?: StylePreset;
+  translatePrompts?: boolean;
+  onProgress?: (progress: AnalysisProgress) => void;
+  onStatus?: (message: string) => void;
+}
+
+// Source scenes win over the model's split; casts are resolved to character ids; everything starts pending
+export const finalizeAnalysis = (analysis: AnalysisResult, sourceScenes?: SourceScene[] | null): AnalysisResult => {
+  const aligned = sourceScenes ? alignToSourceScenes(analysis, sourceScenes) : analysis;
+  return resolveAnalysis({ ...aligned, scenes: aligned.scenes.map(s => ({ ...s, status: 'pending' as const })) });
+};
+
+export const analyzeStep = async (provider: VisionProvider, text: string, options: AnalyzeStepOptions = {}): Promise<AnalysisResult> => {
+  const sourceScenes = options.source?.scenes ?? undefined;
+  const language = detectLanguage(text);
+  const analysis = await analyzeInChunks(provider, text, { scenes: sourceScenes, style: options.style, language, translatePrompts: options.translatePrompts, onStatus: options.onStatus }, options.onProgress);
+  return finalizeAnalysis({ ...analysis, language }, sourceScenes);
+};
+
+export interface GenerationRunConfig {
+  provider: VisionProvider;
+  analysis: AnalysisResult;
+  scenes: ScenePrompt[]; // Scenes to (re)generate
+  aspectRatio: string;
+  style: StylePreset;
+  variations: number;
+  queueOptions: QueueOptions;
+  cache?: ImageCache | null;
+  forceRegenerate?: boolean; // Skip cache lookups; new images are still stored
+  qa?: QaOptions | null;
+  prices?: PriceTable;
+  budgetCap?: number | null; // USD for this run; the queue pauses before a call that would go over it
+}
+
+export interface GenerationRunHandlers {
+  onSceneChange: (sceneId: string, update: (scene: ScenePrompt) => Partial<ScenePrompt>) => void;
+  onProgress?: (progress: { current: number; total: number }) => void;
+  onUsage?: (totals: UsageTotals) => void; // Running totals for this run, after every model call
+  onBudgetReached?: (spent: number, cap: number) => void; // The queue has just been paused at the cap
+}
+
+type RunResult = GeneratedImage & { cacheKey?: string; cached?: boolean; qa?: ConsistencyReport };
+
+export interface GenerationRun {
+  queue: GenerationQueue<RunResult>; // For pause, resume, cancel and state updates
+  total: number;
+  run: () => Promise<void>;
+  setBudgetCap: (cap: number | null) => void; // Takes effect from the next call; resume the queue afterwards
+}
+
+const sceneRequest = (provider: VisionProvider, analysis: AnalysisResult, scene: ScenePrompt, aspectRatio: string, style: StylePreset, variation: number): ImageRequest => ({
+  providerId: provider.id,
+  prompt: scene.refinedPrompt,
+  characterContext: buildCharacterContext(analysis.characters, scene) || "No specific character",
+  globalStyle: analysis.visualStyle,
+  aspectRatio,
+  references: buildReferences(analysis.characters, scene),
+  style,
+  setting: buildSettingContext(analysis.locations, scene) || undefined,
+  variation
+});
+
+// Estimated cost of one call, from the prompt it will send; the real usage comes back with the response
+const imageCallCost = (provider: VisionProvider, request: ImageRequest, prices: PriceTable): number => {
+  const prompt = buildImagePrompt(request.style, { scene: request.prompt, characters: request.characterContext, visualStyle: request.globalStyle, references: request.references, setting: request.setting });
+  return callCost({ model: provider.models.image, inputTokens: estimateTokens(prompt) + request.references.length * IMAGE_INPUT_TOKENS, outputTokens: IMAGE_OUTPUT_TOKENS, images: 1 }, prices);
+};
+
+const checkCallCost = (provider: VisionProvider, expectation: ConsistencyExpectation, prices: PriceTable): number =>
+  callCost({ model: provider.models.check, inputTokens: estimateTokens(buildCheckPrompt(expectation)) + (1 + expectation.references.length) * IMAGE_INPUT_TOKENS, outputTokens: CHECK_OUTPUT_TOKENS, images: 0 }, prices);
+
+export const createGenerationRun = (config: GenerationRunConfig, handlers: GenerationRunHandlers): GenerationRun => {
+  const { provider, analysis, scenes, aspectRatio, style, queueOptions, cache, forceRegenerate, qa } = config;
+  const { onSceneChange } = handlers;
+  const prices = config.prices ?? DEFAULT_PRICES;
+  const variations = Math.max(1, config.variations);
+  const total = scenes.length * variations;
+  let current = 0;
+  let budgetCap = config.budgetCap ?? null;
+  let spent = EMPTY_TOTALS;
+  let reserved = 0; // Estimated cost of calls in flight, so parallel workers can't overshoot the cap together
+
+  // One job per variation; a scene settles once all of its jobs have finished or been skipped
+  const batches = new Map(scenes.map(scene => [scene.id, { pending: variations, succeeded: 0, error: undefined as string | undefined }]));
+  const sceneOf = (jobId: string) => jobId.slice(0, jobId.lastIndexOf('#'));
+  const advance = () => handlers.onProgress?.({ current: ++current, total });
+  const settle = (sceneId: string) => {
+    const batch = batches.get(sceneId)!;
+    if (--batch.pending > 0) return;
+    onSceneChange(sceneId, scene => batch.succeeded > 0
+      ? { status: 'completed', error: undefined }
+      // A failed regeneration keeps the previously selected take
+      : scene.imageUrl
+        ? { status: 'completed', error: batch.error }
+        : { status: batch.error ? 'error' : 'pending', error: batch.error });
+  };
+
+  const queue = createGenerationQueue<RunResult>(queueOptions, {
+    onStart: (id, attempt) => onSceneChange(sceneOf(id), () => ({ status: 'generating', attempts: attempt, error: undefined })),
+    onRetry: (id, _attempt, delayMs, reason) => onSceneChange(sceneOf(id), () => ({ error: `${reason} (retrying in ${Math.ceil(delayMs / 1000)}s)` })),
+    onSuccess: (id, result) => {
+      const sceneId = sceneOf(id);
+      const batch = batches.get(sceneId)!;
+      // The first new take of a batch becomes the selection; the others sit alongside it
+      const select = batch.succeeded++ === 0;
+      const take = { id: createId('take'), imageUrl: result.imageUrl, prompt: result.prompt, createdAt: Date.now(), cacheKey: result.cacheKey, cached: result.cached, qa: result.qa };
+      onSceneChange(sceneId, scene => {
+        // A cache hit for a take the scene already has just selects it again, with the new check result
+        const existing = result.cached && scene.takes?.find(t => t.cacheKey === result.cacheKey);
+        if (!existing) return addTake(scene, take, select);
+        const takes = result.qa ? scene.takes!.map(t => t.id === existing.id ? { ...t, qa: result.qa } : t) : scene.takes;
+        return { takes, ...(select ? selectTake({ ...scene, takes }, existing.id) : {}) };
+      });
+      advance();
+      settle(sceneId);
+    },
+    onError: (id, reason) => {
+      batches.get(sceneOf(id))!.error = reason;
+      advance();
+      settle(sceneOf(id));
+    },
+    onSkip: (id) => settle(sceneOf(id))
+  });
+
+  // Holds a call back while it would take the run over its cap. The queue pauses there; resuming
+  // checks again, so the run only goes on once the cap is raised.
+  const withinBudget = async <R,>(cost: number, call: () => Promise<R>): Promise<R> => {
+    while (budgetCap !== null && spent.cost + reserved + cost > budgetCap) {
+      if (queue.getState() === 'cancelled') throw new Error(`Stopped at the budget cap of ${formatCost(budgetCap)}`);
+      if (queue.getState() === 'running') {
+        queue.pause();
+        handlers.onBudgetReached?.(spent.cost, budgetCap);
+      }
+      await queue.waitWhilePaused();
+    }
+    reserved += cost;
+    try {
+      return await call();
+    } finally {
+      reserved -= cost;
+    }
+  };
+
+  const check = (imageUrl: string, expectation: ConsistencyExpectation) =>
+    withinBudget(checkCallCost(provider, expectation, prices), () => provider.checkImage(imageUrl, expectation));
+
+  const render = async (scene: ScenePrompt, variation: number, skipCache: boolean): Promise<RunResult & { fresh?: boolean }> => {
+    const request = sceneRequest(provider, analysis, scene, aspectRatio, style, variation);
+    const cacheKey = cache ? await imageCacheKey(request) : undefined;
+    // A broken cache only costs a request; it never fails the scene
+    if (cache && cacheKey && !skipCache) {
+      const hit = await cache.get(cacheKey).catch(() => null);
+      if (hit) return { ...hit, cacheKey, cached: true };
+    }
+    const image = await withinBudget(imageCallCost(provider, request, prices), () =>
+      provider.generateImage(request.prompt, request.characterContext, request.globalStyle, aspectRatio, request.references, style, request.setting));
+    return { ...image, cacheKey, fresh: true };
+  };
+
+  const store = async ({ fresh, ...result }: RunResult & { fresh?: boolean }): Promise<RunResult> => {
+    if (fresh && cache && result.cacheKey) await cache.put(result.cacheKey, result).catch(err => console.warn('Could not cache image', err));
+    return result;
+  };
+
+  // With QA on, images scoring below the threshold are generated again; the best one is kept
+  const generate = async (scene: ScenePrompt, variation: number): Promise<RunResult> => {
+    if (!qa?.enabled) return store(await render(scene, variation, !!forceRegenerate));
+    const expectation = buildExpectation(analysis, scene);
+    const limit = 1 + Math.max(0, qa.maxRegenerations);
+    let best: (RunResult & { fresh?: boolean }) | null = null;
+    for (let attempt = 1; attempt <= limit; attempt++) {
+      const image = await render(scene, variation, !!forceRegenerate || attempt > 1);
+      // A failed check leaves the image unchecked rather than failing the scene
+      const report = await check(image.imageUrl, expectation).catch(err => {
+        console.warn('Consistency check failed', err);
+        return null;
+      });
+      if (!report) return store(best ?? image);
+      if (!best || report.score > best.qa!.score) best = { ...image, qa: report };
+      best.qa = { ...best.qa!, attempts: attempt };
+      if (report.score >= qa.threshold) break;
+      if (attempt < limit) {
+        onSceneChange(scene.id, () => ({ error: `Consistency ${report.score}/100 (${report.reasons[0] ?? 'below threshold'}); regenerating` }));
+      }
+    }
+    return store(best!);
+  };
+
+  const run = async () => {
+    handlers.onProgress?.({ current: 0, total });
+    // Everything recorded while the run is going is this run's spending
+    const stop = onUsage(entry => {
+      spent = addUsage(spent, entry, prices);
+      handlers.onUsage?.(spent);
+    });
+    try {
+      await queue.run(scenes.flatMap(scene => Array.from({ length: variations }, (_, k) => ({
+        id: `${scene.id}#${k}`,
+        run: () => generate(scene, k)
+      }))));
+    } finally {
+      stop();
+    }
+  };
+
+  return { queue, total, run, setBudgetCap: (cap) => { budgetCap = cap; } };
+};
+
+export interface CostEstimate {
+  images: number; // Image requests on the first attempt, cached takes excluded
+  cached: number; // Takes the image cache already has
+  expected: number; // USD if every image passes on its first attempt
+  max: number; // USD if QA regenerates every image as often as allowed
+}
+
+// What a generation run would cost, before anything is sent. Uses the same requests the run would make.
+export const estimateGenerationCost = async (
+  config: Pick<GenerationRunConfig, 'provider' | 'analysis' | 'scenes' | 'aspectRatio' | 'style' | 'variations' | 'cache' | 'forceRegenerate' | 'qa' | 'prices'>
+): Promise<CostEstimate> => {
+  const { provider, analysis, aspectRatio, style, cache, qa } = config;
+  const prices = config.prices ?? DEFAULT_PRICES;
+  const retries = qa?.enabled ? Math.max(0, qa.maxRegenerations) : 0;
+  const estimate: CostEstimate = { images: 0, cached: 0, expected: 0, max: 0 };
+  for (const scene of config.scenes) {
+    const checkCost = qa?.enabled ? checkCallCost(provider, buildExpectation(analysis, scene), prices) : 0;
+    for (let variation = 0; variation < Math.max(1, config.variations); variation++) {
+      const request = sceneRequest(provider, analysis, scene, aspectRatio, style, variation);
+      const imageCost = imageCallCost(provider, request, prices);
+      const cached = !!cache && !config.forceRegenerate && await cache.has(await imageCacheKey(request)).catch(() => false);
+      if (cached) estimate.cached++;
+      else estimate.images++;
+      // Cached images are still checked; regenerations never come from the cache
+      const first = (cached ? 0 : imageCost) + checkCost;
+      estimate.expected += first;
+      estimate.max += first + retries * (imageCost + checkCost);
+    }
+  }
+  return estimate;
+};
+
+// Estimated cost of editing the scene's image: the image, the mask and the cast references go in, one image comes out
+export const estimateEditCost = (provider: VisionProvider, analysis: AnalysisResult, scene: ScenePrompt, instruction: string, masked: boolean, prices: PriceTable = DEFAULT_PRICES): number => {
+  const references = buildReferences(analysis.characters, scene);
+  const inputTokens = estimateTokens(buildEditPrompt(instruction, { masked, references })) + (1 + (masked ? 1 : 0) + references.length) * IMAGE_INPUT_TOKENS;
+  return callCost({ model: provider.models.image, inputTokens, outputTokens: IMAGE_OUTPUT_TOKENS, images: 1 }, prices);
+};
+
+export const estimateCheckCost = (provider: VisionProvider, analysis: AnalysisResult, scene: ScenePrompt, prices: PriceTable = DEFAULT_PRICES): number =>
+  checkCallCost(provider, buildExpectation(analysis, scene), prices);
+
+// Edits the scene's selected image and returns the result as a new take (not yet added to the scene).
+// Cast references go along so an instruction like "Ayesha should be smiling" keeps her face.
+export const editSceneImage = async (
+  provider: VisionProvider,
+  analysis: AnalysisResult,
+  scene: ScenePrompt,
+  instruction: string,
+  options: { mask?: string | null; aspectRatio: string }
+): Promise<SceneTake> => {
+  if (!scene.imageUrl) throw new Error('This scene has no image to edit yet.');
+  const image = await provider.editImage(scene.imageUrl, instruction, options.mask ?? null, buildReferences(analysis.characters, scene), options.aspectRatio);
+  return {
+    id: createId('take'),
+    imageUrl: image.imageUrl,
+    prompt: image.prompt,
+    createdAt: Date.now(),
+    editedFrom: scene.selectedTakeId,
+    instruction
+  };
+};
+
+// Checks the scene's selected image on demand, e.g. after an edit or for images made before QA was on
+export const checkSceneImage = async (provider: VisionProvider, analysis: AnalysisResult, scene: ScenePrompt): Promise<ConsistencyReport> => {
+  if (!scene.imageUrl) throw new Error('This scene has no image to check yet.');
+  return provider.checkImage(scene.imageUrl, buildExpectation(analysis, scene));
+};
+
+// Scenes a "Generate" / "Resume" run still has to do
+export const remainingScenes = (analysis: AnalysisResult): ScenePrompt[] => analysis.scenes.filter(s => s.status !== 'completed');
+
+// Applies a reported scene change to a plain analysis object (for callers without React state)
+export const applySceneChange = (analysis: AnalysisResult, sceneId: string, update: (scene: ScenePrompt) => Partial<ScenePrompt>): AnalysisResult => ({
+  ...analysis,
+  scenes: analysis.scenes.map(s => s.id === sceneId ? { ...s, ...update(s) } : s)
+});
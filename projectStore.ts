@@ -0,0 +1,315 @@
+import { createId } from "./sceneEditing";
+import { AnalysisResult, Project, ProjectSummary, ScenePrompt, SceneTake, UsageEntry } from "./types";
+
+// Projects live in IndexedDB. Project records hold everything except image data;
+// images are stored as Blobs in their own store keyed by [projectId, imageKey], where
+// imageKey is "<sceneId>/<takeId>" for takes and "<sceneId>" for a scene without takes.
+
+const DB_NAME = 'visionbulk';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const IMAGES = 'images';
+
+export const PROJECT_FILE_FORMAT = 'visionbulk-project';
+const PROJECT_FILE_VERSION = 1;
+
+interface StoredImage {
+  projectId: string;
+  sceneId: string; // The image key; the field name is the store's key path
+  blob: Blob;
+}
+
+type StoredScene = Omit<ScenePrompt, 'imageUrl' | 'takes'> & { takes?: Omit<SceneTake, 'imageUrl'>[] };
+type StoredProject = Omit<Project, 'analysis'> & { analysis: (Omit<AnalysisResult, 'scenes'> & { scenes: StoredScene[] }) | null };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES, { keyPath: ['projectId', 'sceneId'] });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T,>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const done = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const imageRange = (projectId: string) => IDBKeyRange.bound([projectId], [projectId, []]);
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [meta, data] = dataUrl.split(',');
+  const mime = meta.match(/^data:([^;]+)/)?.[1] || 'image/png';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Last image written per [projectId, imageKey], so autosave only rewrites images that changed
+const writtenImages = new Map<string, string>();
+const cacheKey = (projectId: string, key: string) => `${projectId}/${key}`;
+const takeKey = (scene: { id: string }, take: { id: string }) => `${scene.id}/${take.id}`;
+
+// Image keys and data URLs a scene needs stored; the selected image is already one of its takes
+const sceneImages = (scene: ScenePrompt): [string, string][] =>
+  scene.takes?.length
+    ? scene.takes.map(take => [takeKey(scene, take), take.imageUrl])
+    : scene.imageUrl ? [[scene.id, scene.imageUrl]] : [];
+
+const stripImages = (project: Project): StoredProject => ({
+  ...project,
+  analysis: project.analysis && {
+    ...project.analysis,
+    scenes: project.analysis.scenes.map(({ imageUrl, takes, ...scene }) => ({
+      ...scene,
+      ...(takes ? { takes: takes.map(({ imageUrl: _, ...take }) => take) } : {})
+    }))
+  }
+});
+
+const summarize = (project: StoredProject): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  updatedAt: project.updatedAt,
+  sceneCount: project.analysis?.scenes.length ?? 0,
+  completedCount: project.analysis?.scenes.filter(s => s.status === 'completed').length ?? 0
+});
+
+export const createProject = (name: string, patch: Partial<Project> = {}): Project => {
+  const now = Date.now();
+  return {
+    id: createId('project'),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    inputText: '',
+    aspectRatio: '16:9',
+    providerId: 'gemini',
+    analysis: null,
+    ...patch
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects = await promisify<StoredProject[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return projects.map(summarize).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES]);
+  const project = await promisify<StoredProject | undefined>(tx.objectStore(PROJECTS).get(id));
+  if (!project) return null;
+  const images = await promisify<StoredImage[]>(tx.objectStore(IMAGES).getAll(imageRange(id)));
+  const urls = new Map<string, string>();
+  for (const image of images) {
+    const url = await blobToDataUrl(image.blob);
+    urls.set(image.sceneId, url);
+    writtenImages.set(cacheKey(id, image.sceneId), url);
+  }
+  return {
+    ...project,
+    analysis: project.analysis && {
+      ...project.analysis,
+      scenes: project.analysis.scenes.map((scene): ScenePrompt => {
+        const takes = scene.takes
+          ?.map(take => ({ ...take, imageUrl: urls.get(takeKey(scene, take)) ?? '' }))
+          .filter(take => take.imageUrl);
+        const selected = takes?.find(take => take.id === scene.selectedTakeId) ?? takes?.[takes.length - 1];
+        return {
+          ...scene,
+          takes,
+          selectedTakeId: selected?.id,
+          imageUrl: selected?.imageUrl ?? urls.get(scene.id),
+          // A scene that was mid-flight when the page closed never finished
+          status: scene.status === 'generating' ? 'pending' : scene.status,
+          attempts: undefined
+        };
+      })
+    }
+  };
+};
+
+const forgetWrittenImages = (projectId: string) => {
+  for (const key of [...writtenImages.keys()]) {
+    if (key.startsWith(`${projectId}/`)) writtenImages.delete(key);
+  }
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES], 'readwrite');
+  const images = tx.objectStore(IMAGES);
+  tx.objectStore(PROJECTS).put(stripImages(project));
+
+  const keep = new Set<string>();
+  for (const [key, url] of (project.analysis?.scenes ?? []).flatMap(sceneImages)) {
+    keep.add(key);
+    if (writtenImages.get(cacheKey(project.id, key)) === url) continue;
+    images.put({ projectId: project.id, sceneId: key, blob: dataUrlToBlob(url) } as StoredImage);
+    writtenImages.set(cacheKey(project.id, key), url);
+  }
+
+  // Drop images of deleted scenes and takes
+  const keys = await promisify(images.getAllKeys(imageRange(project.id)));
+  for (const key of keys as [string, string][]) {
+    if (!keep.has(key[1])) {
+      images.delete(key);
+      writtenImages.delete(cacheKey(key[0], key[1]));
+    }
+  }
+  try {
+    await done(tx);
+  } catch (error) {
+    // Nothing from this save landed, so the next one must rewrite every image
+    forgetWrittenImages(project.id);
+    throw error;
+  }
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const project = await promisify<Project | undefined>(tx.objectStore(PROJECTS).get(id));
+  if (project) tx.objectStore(PROJECTS).put({ ...project, name, updatedAt: Date.now() });
+  await done(tx);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(IMAGES).delete(imageRange(id));
+  await done(tx);
+  forgetWrittenImages(id);
+};
+
+export const duplicateProject = async (id: string): Promise<Project | null> => {
+  const source = await loadProject(id);
+  if (!source) return null;
+  const copy = createProject(`${source.name} (copy)`, {
+    inputText: source.inputText,
+    aspectRatio: source.aspectRatio,
+    providerId: source.providerId,
+    source: source.source,
+    stylePreset: source.stylePreset,
+    customPresets: source.customPresets,
+    qa: source.qa,
+    budgetCap: source.budgetCap,
+    usage: source.usage,
+    translatePrompts: source.translatePrompts,
+    output: source.output,
+    analysis: source.analysis
+  });
+  await saveProject(copy);
+  return copy;
+};
+
+// --- Single-file import/export: the project record with images inlined as data URLs ---
+
+export const exportProject = async (id: string): Promise<Blob> => {
+  const project = await loadProject(id);
+  if (!project) throw new Error('Project not found');
+  const file = { format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, exportedAt: new Date().toISOString(), project };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  project: Record<string, unknown>;
+}
+
+const SCENE_STATUSES: ScenePrompt['status'][] = ['pending', 'generating', 'completed', 'error'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// saveProject turns images into blobs, which needs base64 image data URLs
+const isImageDataUrl = (value: unknown): boolean =>
+  typeof value === 'string' && /^data:image\/[\w.+-]+;base64,[A-Za-z0-9+/]+={0,2}$/.test(value);
+
+// Entries the cost totals can add up; anything else in an imported ledger is dropped
+const isUsageEntry = (value: unknown): value is UsageEntry =>
+  isRecord(value) && typeof value.model === 'string'
+  && [value.inputTokens, value.outputTokens, value.images].every(n => typeof n === 'number' && Number.isFinite(n));
+
+const isProjectFile = (value: unknown): value is ProjectFile =>
+  isRecord(value) && value.format === PROJECT_FILE_FORMAT && typeof value.version === 'number' && isRecord(value.project);
+
+// Whatever saveProject and loadProject rely on, so a damaged file is turned away here rather
+// than breaking the project list later. Returns the first problem found, or null.
+const storyboardProblem = (analysis: unknown): string | null => {
+  if (analysis === null || analysis === undefined) return null;
+  if (!isRecord(analysis) || !Array.isArray(analysis.scenes)) return 'the storyboard has no scene list';
+  if (!Array.isArray(analysis.characters)) return 'the storyboard has no character list';
+  for (const [i, scene] of analysis.scenes.entries()) {
+    if (!isRecord(scene) || typeof scene.id !== 'string') return `scene ${i + 1} has no id`;
+    if (!SCENE_STATUSES.some(status => status === scene.status)) return `scene ${i + 1} has an unknown status`;
+    if (scene.imageUrl !== undefined && !isImageDataUrl(scene.imageUrl)) return `scene ${i + 1} has an invalid image`;
+    if (scene.takes !== undefined && !(Array.isArray(scene.takes) && scene.takes.every(take => isRecord(take) && typeof take.id === 'string' && isImageDataUrl(take.imageUrl)))) {
+      return `scene ${i + 1} has invalid takes`;
+    }
+  }
+  return null;
+};
+
+export const importProject = async (file: Blob): Promise<Project> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not a VisionBulk project (invalid JSON).');
+  }
+  if (!isProjectFile(parsed)) {
+    throw new Error('This file is not a VisionBulk project.');
+  }
+  if (parsed.version > PROJECT_FILE_VERSION) {
+    throw new Error(`This project was exported by a newer version of VisionBulk (format v${parsed.version}).`);
+  }
+  const problem = storyboardProblem(parsed.project.analysis);
+  if (problem) throw new Error(`This project file is damaged: ${problem}.`);
+  const source = parsed.project as Partial<Project>;
+  // Always import as a new project so an import never overwrites local work
+  const project = createProject(source.name || 'Imported project', {
+    inputText: source.inputText ?? '',
+    aspectRatio: source.aspectRatio ?? '16:9',
+    providerId: source.providerId ?? 'gemini',
+    source: source.source ?? null,
+    stylePreset: source.stylePreset,
+    customPresets: source.customPresets ?? [],
+    qa: source.qa,
+    budgetCap: source.budgetCap ?? null,
+    usage: Array.isArray(source.usage) ? source.usage.filter(isUsageEntry) : [],
+    translatePrompts: source.translatePrompts,
+    output: source.output,
+    analysis: source.analysis ?? null
+  });
+  await saveProject(project);
+  return project;
+};
@@ -0,0 +1,18 @@
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockService";
+import { ProviderId, VisionProvider } from "./types";
+
+export const providers: Record<ProviderId, VisionProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in providers;
+
+// VISIONBULK_PROVIDER=mock in .env.local switches the default to the offline provider
+export const defaultProviderId: ProviderId = isProviderId(process.env.VISIONBULK_PROVIDER)
+  ? process.env.VISIONBULK_PROVIDER
+  : 'gemini';
+
+export const getProvider = (id: ProviderId = defaultProviderId): VisionProvider => providers[id];
@@ -0,0 +1,206 @@
+import { AnalysisResult, CharacterInfo, LocationInfo, SceneContinuity, ScenePrompt, SceneTake } from "./types";
+
+// Pure helpers for the review step. Each returns a new array/object and never mutates its input.
+
+export const createId = (prefix: string): string => `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createScene = (patch: Partial<ScenePrompt> = {}): ScenePrompt => ({
+  id: createId('scene'),
+  originalText: '',
+  refinedPrompt: '',
+  presentCharacters: [],
+  characterIds: [],
+  status: 'pending',
+  ...patch
+});
+
+export const insertScene = (scenes: ScenePrompt[], index: number, scene: ScenePrompt = createScene()): ScenePrompt[] =>
+  [...scenes.slice(0, index), scene, ...scenes.slice(index)];
+
+export const removeScene = (scenes: ScenePrompt[], index: number): ScenePrompt[] =>
+  scenes.filter((_, i) => i !== index);
+
+export const moveScene = (scenes: ScenePrompt[], index: number, offset: number): ScenePrompt[] => {
+  const target = index + offset;
+  if (target < 0 || target >= scenes.length) return scenes;
+  const next = [...scenes];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const splitText = (text: string): [string, string] => {
+  const sentences = text.match(/[^.!?]+[.!?]*\s*/g) || [text];
+  if (sentences.length > 1) {
+    const half = Math.ceil(sentences.length / 2);
+    return [sentences.slice(0, half).join('').trim(), sentences.slice(half).join('').trim()];
+  }
+  const words = text.split(/\s+/);
+  const half = Math.ceil(words.length / 2);
+  return [words.slice(0, half).join(' '), words.slice(half).join(' ')];
+};
+
+// Splits the source text in half at a sentence (or word) boundary; both halves keep the
+// prompt and cast so they can be refined separately afterwards.
+export const splitScene = (scenes: ScenePrompt[], index: number): ScenePrompt[] => {
+  const scene = scenes[index];
+  if (!scene) return scenes;
+  const [first, second] = splitText(scene.originalText);
+  const reset = { status: 'pending' as const, imageUrl: undefined, error: undefined, attempts: undefined, takes: undefined, selectedTakeId: undefined };
+  const { timing } = scene;
+  const middle = timing && timing.start + (timing.end - timing.start) * (first.length / Math.max(1, first.length + second.length));
+  return [
+    ...scenes.slice(0, index),
+    { ...scene, ...reset, originalText: first, timing: timing && { start: timing.start, end: middle! } },
+    createScene({
+      originalText: second,
+      refinedPrompt: scene.refinedPrompt,
+      presentCharacters: [...scene.presentCharacters],
+      characterIds: scene.characterIds && [...scene.characterIds],
+      unresolvedCharacters: scene.unresolvedCharacters && [...scene.unresolvedCharacters],
+      continuity: scene.continuity && { ...scene.continuity, props: scene.continuity.props && [...scene.continuity.props] },
+      timing: timing && { start: middle!, end: timing.end }
+    }),
+    ...scenes.slice(index + 1)
+  ];
+};
+
+export const mergeWithNext = (scenes: ScenePrompt[], index: number): ScenePrompt[] => {
+  const scene = scenes[index];
+  const next = scenes[index + 1];
+  if (!scene || !next) return scenes;
+  const merged: ScenePrompt = {
+    ...scene,
+    originalText: [scene.originalText, next.originalText].filter(Boolean).join(' '),
+    refinedPrompt: [scene.refinedPrompt, next.refinedPrompt].filter(Boolean).join(' '),
+    presentCharacters: [...new Set([...scene.presentCharacters, ...next.presentCharacters])],
+    characterIds: scene.characterIds && next.characterIds ? [...new Set([...scene.characterIds, ...next.characterIds])] : undefined,
+    unresolvedCharacters: scene.unresolvedCharacters || next.unresolvedCharacters
+      ? [...new Set([...(scene.unresolvedCharacters ?? []), ...(next.unresolvedCharacters ?? [])])]
+      : undefined,
+    // The merged scene is staged where the first one was
+    continuity: scene.continuity ?? next.continuity,
+    timing: scene.timing && next.timing ? { start: scene.timing.start, end: next.timing.end } : scene.timing ?? next.timing,
+    status: 'pending',
+    imageUrl: undefined,
+    error: undefined,
+    attempts: undefined,
+    takes: undefined,
+    selectedTakeId: undefined
+  };
+  return [...scenes.slice(0, index), merged, ...scenes.slice(index + 2)];
+};
+
+// Keeps the cast names of scenes that include the character in step when it is renamed
+export const updateCharacter = (analysis: AnalysisResult, index: number, patch: Partial<CharacterInfo>): AnalysisResult => {
+  const previous = analysis.characters[index];
+  if (!previous) return analysis;
+  const updated = { ...previous, ...patch };
+  const renamed = patch.name !== undefined && patch.name !== previous.name;
+  return {
+    ...analysis,
+    characters: analysis.characters.map((c, i) => i === index ? updated : c),
+    scenes: renamed
+      ? analysis.scenes.map(s => s.characterIds?.includes(previous.id)
+        ? { ...s, presentCharacters: s.presentCharacters.map(n => n === previous.name ? updated.name : n) }
+        : s)
+      : analysis.scenes
+  };
+};
+
+export const removeCharacter = (analysis: AnalysisResult, index: number): AnalysisResult => {
+  const removed = analysis.characters[index];
+  if (!removed) return analysis;
+  return {
+    ...analysis,
+    characters: analysis.characters.filter((_, i) => i !== index),
+    scenes: analysis.scenes.map(s => ({
+      ...s,
+      presentCharacters: s.presentCharacters.filter(n => n !== removed.name),
+      characterIds: s.characterIds?.filter(id => id !== removed.id)
+    }))
+  };
+};
+
+// Adds or removes a character from a scene's cast by id
+export const toggleSceneCharacter = (scene: ScenePrompt, characters: CharacterInfo[], characterId: string): Partial<ScenePrompt> => {
+  const current = scene.characterIds ?? [];
+  const characterIds = current.includes(characterId) ? current.filter(id => id !== characterId) : [...current, characterId];
+  return {
+    characterIds,
+    presentCharacters: characters.filter(c => characterIds.includes(c.id)).map(c => c.name)
+  };
+};
+
+// --- Location sheet and per-scene continuity ---
+
+export const updateLocation = (analysis: AnalysisResult, index: number, patch: Partial<LocationInfo>): AnalysisResult => ({
+  ...analysis,
+  locations: (analysis.locations ?? []).map((l, i) => i === index ? { ...l, ...patch } : l)
+});
+
+export const removeLocation = (analysis: AnalysisResult, index: number): AnalysisResult => {
+  const removed = analysis.locations?.[index];
+  if (!removed) return analysis;
+  return {
+    ...analysis,
+    locations: analysis.locations!.filter((_, i) => i !== index),
+    scenes: analysis.scenes.map(s => s.continuity?.locationId === removed.id
+      ? { ...s, continuity: { ...s.continuity, locationId: undefined } }
+      : s)
+  };
+};
+
+// Blank fields are cleared rather than kept as empty strings, so they drop out of the prompt
+export const updateContinuity = (scene: ScenePrompt, patch: Partial<SceneContinuity>): Partial<ScenePrompt> => {
+  const continuity: SceneContinuity = { ...scene.continuity, ...patch };
+  for (const key of Object.keys(continuity) as (keyof SceneContinuity)[]) {
+    const value = continuity[key];
+    if (Array.isArray(value) ? value.length === 0 : !value?.trim()) delete continuity[key];
+  }
+  return { continuity };
+};
+
+export const MAX_REFERENCE_IMAGES = 3;
+
+// New references go first: the most recently chosen look is the one the model should follow most closely
+export const addReferenceImage = (analysis: AnalysisResult, index: number, imageUrl: string): AnalysisResult => {
+  const character = analysis.characters[index];
+  if (!character) return analysis;
+  const referenceImages = [imageUrl, ...(character.referenceImages ?? []).filter(url => url !== imageUrl)].slice(0, MAX_REFERENCE_IMAGES);
+  return updateCharacter(analysis, index, { referenceImages });
+};
+
+export const removeReferenceImage = (analysis: AnalysisResult, index: number, referenceIndex: number): AnalysisResult => {
+  const character = analysis.characters[index];
+  if (!character) return analysis;
+  return updateCharacter(analysis, index, { referenceImages: (character.referenceImages ?? []).filter((_, i) => i !== referenceIndex) });
+};
+
+// "Lock this look": a scene render becomes the sole reference for a character
+export const lockCharacterLook = (analysis: AnalysisResult, characterId: string, imageUrl: string): AnalysisResult => {
+  const index = analysis.characters.findIndex(c => c.id === characterId);
+  if (index === -1) return analysis;
+  return updateCharacter(analysis, index, { referenceImages: [imageUrl] });
+};
+
+// --- Takes: every generation is kept; the selected one is mirrored into imageUrl ---
+
+export const addTake = (scene: ScenePrompt, take: SceneTake, select: boolean): Partial<ScenePrompt> => ({
+  takes: [...(scene.takes ?? []), take],
+  ...(select || !scene.imageUrl ? { selectedTakeId: take.id, imageUrl: take.imageUrl } : {})
+});
+
+export const selectTake = (scene: ScenePrompt, takeId: string): Partial<ScenePrompt> => {
+  const take = scene.takes?.find(t => t.id === takeId);
+  return take ? { selectedTakeId: take.id, imageUrl: take.imageUrl, status: 'completed', error: undefined } : {};
+};
+
+// Removing the selected take falls back to the newest remaining one
+export const removeTake = (scene: ScenePrompt, takeId: string): Partial<ScenePrompt> => {
+  const takes = (scene.takes ?? []).filter(t => t.id !== takeId);
+  if (scene.selectedTakeId !== takeId) return { takes };
+  const fallback = takes[takes.length - 1];
+  return fallback
+    ? { takes, selectedTakeId: fallback.id, imageUrl: fallback.imageUrl }
+    : { takes, selectedTakeId: undefined, imageUrl: undefined, status: 'pending' };
+};
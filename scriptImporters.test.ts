@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { alignToSourceScenes, detectFormat, importScriptText, parseFdx, parseFountain, parseSubtitles } from './scriptImporters';
+import { AnalysisResult, SourceScene } from './types';
+
+test('Fountain splits on sluglines, skips the title page and collects cues', () => {
+  const scenes = parseFountain([
+    'Title: The Harbour',
+    'Author: Someone',
+    '',
+    'INT. KITCHEN - NIGHT',
+    '',
+    'Ayesha stirs a pot.',
+    '',
+    'AYESHA (V.O.)',
+    'It was always late.',
+    '',
+    '.ROOFTOP',
+    '',
+    '@mcCLANE',
+    'Come on.',
+    '',
+    'CUT TO:',
+    '',
+    'EXT. HARBOUR - DAWN',
+    '',
+    'Boats.'
+  ].join('\n'));
+  assert.deepEqual(scenes.map(s => s.text.split('\n')[0]), ['INT. KITCHEN - NIGHT', 'ROOFTOP', 'EXT. HARBOUR - DAWN']);
+  assert.deepEqual(scenes.map(s => s.characters), [['Ayesha'], ['Mcclane'], []]);
+});
+
+test('Final Draft paragraphs become scenes with dialogue under its cue', () => {
+  const scenes = parseFdx(`<?xml version="1.0"?>
+<FinalDraft><Content>
+<Paragraph Type="Scene Heading"><Text>int. office - day</Text></Paragraph>
+<Paragraph Type="Action"><Text>Rain &amp; fog.</Text></Paragraph>
+<Paragraph Type="Character"><Text>Bilal</Text></Paragraph>
+<Paragraph Type="Dialogue"><Text>Not </Text><Text>again.</Text></Paragraph>
+<Paragraph Type="Scene Heading"><Text>EXT. STREET - NIGHT</Text></Paragraph>
+<Paragraph Type="Action"><Text>Empty.</Text></Paragraph>
+</Content></FinalDraft>`);
+  assert.equal(scenes.length, 2);
+  assert.equal(scenes[0].text, 'INT. OFFICE - DAY\n\nRain & fog.\n\nBILAL\nNot again.');
+  assert.deepEqual(scenes[0].characters, ['Bilal']);
+  assert.deepEqual(scenes[1].characters, []);
+});
+
+test('subtitle cues group into timed scenes at pauses', () => {
+  const srt = [
+    '1',
+    '00:00:01,000 --> 00:00:02,500',
+    'SARA: Where were you?',
+    '',
+    '2',
+    '00:00:03,000 --> 00:00:04,000',
+    '<i>Out.</i>',
+    '',
+    '3',
+    '00:00:10,000 --> 00:00:12,000',
+    'Later that night.'
+  ].join('\n');
+  const scenes = parseSubtitles(srt);
+  assert.deepEqual(scenes.map(s => s.timing), [{ start: 1, end: 4 }, { start: 10, end: 12 }]);
+  assert.equal(scenes[0].text, 'SARA: Where were you?\nOut.');
+  assert.deepEqual(scenes[0].characters, ['Sara']);
+
+  const vtt = 'WEBVTT\n\nNOTE header\n\n00:01.000 --> 00:02.000\n<v Omar>Hello</v>\n';
+  assert.equal(detectFormat('clip.txt', vtt), 'vtt');
+  assert.deepEqual(importScriptText('clip.txt', vtt).scenes?.[0].characters, ['Omar']);
+});
+
+test('plain text is left for the model to split unless it reads as a screenplay', () => {
+  assert.deepEqual(importScriptText('notes.txt', 'A quiet morning.'), { format: 'text', text: 'A quiet morning.', scenes: null });
+  const screenplay = importScriptText('draft.txt', 'INT. HOUSE - DAY\n\nHello.\n\nEXT. YARD - DAY\n\nBye.');
+  assert.equal(screenplay.format, 'fountain');
+  assert.equal(screenplay.scenes?.length, 2);
+});
+
+const source: SourceScene[] = [
+  { text: 'One', characters: ['Ayesha'] },
+  { text: 'Two', characters: ['Bilal'], timing: { start: 5, end: 9 } },
+  { text: 'Three', characters: [] }
+];
+
+const analysis = (ids: string[]): AnalysisResult => ({
+  characters: [],
+  visualStyle: 'ink',
+  scenes: ids.map(id => ({ id, originalText: '', refinedPrompt: `Prompt ${id}`, presentCharacters: [], status: 'pending' }))
+});
+
+test('alignToSourceScenes pairs scenes by id and fills a dropped one from the source', () => {
+  const aligned = alignToSourceScenes(analysis(['scene-1', 'scene-3']), source);
+  assert.deepEqual(aligned.scenes.map(s => s.refinedPrompt), ['Prompt scene-1', 'Two', 'Prompt scene-3']);
+  assert.deepEqual(aligned.scenes.map(s => s.originalText), ['One', 'Two', 'Three']);
+  assert.deepEqual(aligned.scenes[1].presentCharacters, ['Bilal']);
+  assert.deepEqual(aligned.scenes[1].timing, { start: 5, end: 9 });
+});
+
+test('alignToSourceScenes falls back to position for ids it did not assign', () => {
+  const aligned = alignToSourceScenes(analysis(['a', 'b', 'c']), source);
+  assert.deepEqual(aligned.scenes.map(s => s.id), ['scene-1', 'scene-2', 'scene-3']);
+  assert.deepEqual(aligned.scenes.map(s => s.refinedPrompt), ['Prompt a', 'Prompt b', 'Prompt c']);
+});
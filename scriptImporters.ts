@@ -0,0 +1,274 @@
+import JSZip from 'jszip';
+import { AnalysisResult, ImportedScript, SceneTiming, ScriptFormat, SourceScene } from "./types";
+
+// Local parsers that turn screenplay and subtitle files into pre-split scenes.
+// Plain regex parsing (no DOMParser) so the same code runs in the browser and in Node.
+
+export const SCRIPT_FILE_ACCEPT = '.txt,.fountain,.spmd,.fdx,.srt,.vtt,.docx';
+
+// Subtitle cues closer together than this belong to the same scene
+const SUBTITLE_SCENE_GAP_S = 2;
+const SUBTITLE_SCENE_MAX_S = 20;
+
+const SLUGLINE = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+
+const titleCase = (name: string): string =>
+  name.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+
+const unique = (values: string[]): string[] => [...new Set(values)];
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+const joinScenes = (scenes: SourceScene[]): string => scenes.map(s => s.text).join('\n\n');
+
+// --- Fountain ---
+
+const cueName = (line: string): string =>
+  titleCase(line.replace(/^@/, '').replace(/\^$/, '').replace(/\(.*?\)/g, '').trim());
+
+const isCharacterCue = (line: string, next: string | undefined): boolean => {
+  const trimmed = line.trim();
+  if (!next?.trim()) return false;
+  if (trimmed.startsWith('@')) return true;
+  const name = trimmed.replace(/\(.*?\)/g, '').replace(/\^$/, '').trim();
+  return /\p{Lu}/u.test(name) && name === name.toUpperCase() && !/TO:$/.test(name) && !SLUGLINE.test(name) && !/^[!>.~=#]/.test(name);
+};
+
+const isSceneHeading = (line: string): boolean => {
+  const trimmed = line.trim();
+  return SLUGLINE.test(trimmed) || (/^\.[^.]/.test(trimmed));
+};
+
+export const parseFountain = (source: string): SourceScene[] => {
+  let text = source.replace(/\r\n?/g, '\n').replace(/\/\*[\s\S]*?\*\//g, '').replace(/\[\[[\s\S]*?\]\]/g, '');
+  // Title page: "Key: value" lines up to the first blank line
+  if (/^(Title|Credit|Author|Authors|Source|Draft date|Contact|Notes|Copyright):/i.test(text.trimStart())) {
+    const end = text.search(/\n\s*\n/);
+    text = end === -1 ? '' : text.slice(end);
+  }
+
+  const lines = text.split('\n');
+  const scenes: { lines: string[]; characters: string[] }[] = [];
+  let current: { lines: string[]; characters: string[] } = { lines: [], characters: [] };
+
+  lines.forEach((line, i) => {
+    const previousBlank = i === 0 || !lines[i - 1].trim();
+    if (previousBlank && isSceneHeading(line)) {
+      if (current.lines.some(l => l.trim())) scenes.push(current);
+      current = { lines: [line.trim().replace(/^\.(?=[^.])/, '')], characters: [] };
+      return;
+    }
+    if (previousBlank && isCharacterCue(line, lines[i + 1])) {
+      current.characters.push(cueName(line));
+    }
+    current.lines.push(line);
+  });
+  if (current.lines.some(l => l.trim())) scenes.push(current);
+
+  return scenes.map(s => ({
+    text: s.lines.join('\n').trim(),
+    characters: unique(s.characters)
+  }));
+};
+
+export const hasSluglines = (text: string, minimum: number = 1): boolean =>
+  text.split('\n').filter(line => SLUGLINE.test(line.trim())).length >= minimum;
+
+// --- Final Draft (.fdx) ---
+
+export const parseFdx = (xml: string): SourceScene[] => {
+  const scenes: { blocks: string[]; characters: string[] }[] = [];
+  let current: { blocks: string[]; characters: string[] } = { blocks: [], characters: [] };
+  const content = xml.match(/<Content>([\s\S]*?)<\/Content>/)?.[1] ?? xml;
+
+  for (const [, attrs, body] of content.matchAll(/<Paragraph\b([^>]*)>([\s\S]*?)<\/Paragraph>/g)) {
+    const type = attrs.match(/Type="([^"]*)"/)?.[1] ?? 'Action';
+    const text = decodeXml([...body.matchAll(/<Text\b[^>]*>([\s\S]*?)<\/Text>/g)].map(m => m[1]).join('')).trim();
+    if (!text) continue;
+    if (type === 'Scene Heading') {
+      if (current.blocks.length > 0) scenes.push(current);
+      current = { blocks: [text.toUpperCase()], characters: [] };
+    } else if (type === 'Character') {
+      current.characters.push(cueName(text));
+      current.blocks.push(text.toUpperCase());
+    } else if (type === 'Dialogue' || type === 'Parenthetical') {
+      // Dialogue sits directly under its cue, like in the printed script
+      const last = current.blocks.length - 1;
+      if (last >= 0) current.blocks[last] += `\n${text}`;
+      else current.blocks.push(text);
+    } else {
+      current.blocks.push(text);
+    }
+  }
+  if (current.blocks.length > 0) scenes.push(current);
+
+  return scenes.map(s => ({ text: s.blocks.join('\n\n'), characters: unique(s.characters) }));
+};
+
+// --- Subtitles (.srt / .vtt) ---
+
+interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+const parseTimestamp = (value: string): number => {
+  const parts = value.trim().replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+export const parseSubtitleCues = (source: string): SubtitleCue[] => {
+  const blocks = source.replace(/\r\n?/g, '\n').replace(/^﻿/, '').split(/\n\s*\n/);
+  const cues: SubtitleCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE and STYLE blocks
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    let speaker: string | undefined;
+    const text = lines.slice(timingIndex + 1)
+      .map(line => {
+        const voice = line.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+        if (voice) speaker = voice[1].trim();
+        const label = line.match(/^-?\s*([\p{Lu}][\p{Lu}\s.'-]{0,30}):\s/u);
+        if (label && !speaker) speaker = label[1].trim();
+        return line.replace(/<[^>]+>/g, '').trim();
+      })
+      .filter(Boolean)
+      .join(' ');
+    if (text) cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text, speaker });
+  }
+  return cues;
+};
+
+const formatTimestamp = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toFixed(3).padStart(6, '0');
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${s}`;
+};
+
+export const formatTiming = (timing: SceneTiming): string => `${formatTimestamp(timing.start)} --> ${formatTimestamp(timing.end)}`;
+
+// Consecutive cues become one scene until there is a pause or the scene gets too long
+export const parseSubtitles = (source: string): SourceScene[] => {
+  const groups: SubtitleCue[][] = [];
+  for (const cue of parseSubtitleCues(source)) {
+    const group = groups[groups.length - 1];
+    const last = group?.[group.length - 1];
+    if (group && last && cue.start - last.end <= SUBTITLE_SCENE_GAP_S && cue.end - group[0].start <= SUBTITLE_SCENE_MAX_S) {
+      group.push(cue);
+    } else {
+      groups.push([cue]);
+    }
+  }
+  return groups.map(cues => ({
+    text: cues.map(c => c.text).join('\n'),
+    characters: unique(cues.flatMap(c => c.speaker ? [titleCase(c.speaker)] : [])),
+    timing: { start: cues[0].start, end: cues[cues.length - 1].end }
+  }));
+};
+
+// --- Word (.docx) ---
+
+export const extractDocxText = async (data: ArrayBuffer | Uint8Array): Promise<string> => {
+  const zip = await JSZip.loadAsync(data);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error('This .docx file has no document body.');
+  return documentXml
+    .split(/<\/w:p>/)
+    .map(paragraph => decodeXml(
+      [...paragraph
+        .replace(/<w:tab\/>/g, '<w:t>\t</w:t>')
+        .replace(/<w:br\/>/g, '<w:t>\n</w:t>')
+        .matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g)]
+        .map(m => m[1])
+        .join('')
+    ))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// --- Entry point ---
+
+export const detectFormat = (fileName: string, text?: string): ScriptFormat => {
+  const ext = fileName.toLowerCase().split('.').pop() ?? '';
+  if (ext === 'fountain' || ext === 'spmd') return 'fountain';
+  if (ext === 'fdx') return 'fdx';
+  if (ext === 'srt') return 'srt';
+  if (ext === 'vtt') return 'vtt';
+  if (ext === 'docx') return 'docx';
+  if (text && /^WEBVTT/.test(text.trimStart())) return 'vtt';
+  if (text && TIMING_LINE.test(text.split('\n').slice(0, 5).join('\n'))) return 'srt';
+  // Plain text written as a screenplay still gets split on its sluglines
+  if (text && hasSluglines(text, 2)) return 'fountain';
+  return 'text';
+};
+
+const fromScenes = (format: ScriptFormat, scenes: SourceScene[]): ImportedScript => ({
+  format,
+  text: joinScenes(scenes),
+  scenes: scenes.length > 0 ? scenes : null
+});
+
+export const importScriptText = (fileName: string, text: string): ImportedScript => {
+  const format = detectFormat(fileName, text);
+  switch (format) {
+    case 'fountain':
+      return fromScenes(format, parseFountain(text));
+    case 'fdx':
+      return fromScenes(format, parseFdx(text));
+    case 'srt':
+    case 'vtt':
+      return fromScenes(format, parseSubtitles(text));
+    default:
+      return { format: 'text', text, scenes: null };
+  }
+};
+
+// A Word document written as a screenplay is split on its sluglines like Fountain
+export const importDocxText = (text: string): ImportedScript =>
+  hasSluglines(text, 2) ? fromScenes('docx', parseFountain(text)) : { format: 'docx', text, scenes: null };
+
+export const importScriptFile = async (file: File): Promise<ImportedScript> => {
+  if (detectFormat(file.name) === 'docx') {
+    return importDocxText(await extractDocxText(await file.arrayBuffer()));
+  }
+  return importScriptText(file.name, await file.text());
+};
+
+// The model may rephrase or drop scenes; source scenes are authoritative for order, text and timing
+export const alignToSourceScenes = (analysis: AnalysisResult, sourceScenes: SourceScene[]): AnalysisResult => {
+  // The model numbers pre-split scenes "scene-1" to "scene-n". Going by those ids, a dropped or merged
+  // scene leaves a gap filled from the source instead of shifting every later scene; other ids go by position.
+  const byId = new Map(analysis.scenes.map(scene => [scene.id, scene]));
+  const numbered = analysis.scenes.every(scene => /^scene-\d+$/.test(scene.id));
+  return {
+    ...analysis,
+    scenes: sourceScenes.map((source, i) => {
+      const scene = numbered ? byId.get(`scene-${i + 1}`) : analysis.scenes[i];
+      return {
+        id: `scene-${i + 1}`,
+        refinedPrompt: scene?.refinedPrompt || source.text,
+        presentCharacters: scene?.presentCharacters?.length ? scene.presentCharacters : source.characters,
+        continuity: scene?.continuity,
+        status: 'pending' as const,
+        originalText: source.text,
+        timing: source.timing
+      };
+    })
+  };
+};
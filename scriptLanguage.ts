@@ -0,0 +1,88 @@
+import { ScriptLanguage, TextDirection } from "./types";
+
+// Language detection by writing system. Counting letters per Unicode block is enough to tell
+// Urdu from Hindi or Arabic, and to notice English mixed into an Urdu script; it can't tell
+// Latin-script languages apart beyond a quick check for English.
+
+interface WritingSystem {
+  pattern: RegExp;
+  direction: TextDirection;
+  // The language, given the text in this writing system
+  identify: (text: string) => Pick<ScriptLanguage, 'code' | 'name'>;
+}
+
+// Letters Urdu adds to the Arabic alphabet (ٹ ڈ ڑ ں ھ ے ۓ), and the ones Persian shares with it (پ چ ژ گ ی)
+const URDU_LETTERS = /[\u0679\u0688\u0691\u06BA\u06BE\u06D2\u06D3]/;
+const PERSIAN_LETTERS = /[\u067E\u0686\u0698\u06AF\u06CC]/;
+const ENGLISH_WORDS = /\b(the|and|of|to|is|in|with|at|she|he|they|her|his)\b/i;
+
+// Hebrew, Arabic, Syriac, Thaana and N'Ko, plus the Hebrew and Arabic presentation forms
+const RTL_LETTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const STRONG_LETTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFFA-Za-z\u00C0-\u024F\u0370-\u04FF\u0900-\u0DFF\u3040-\u9FFF\uAC00-\uD7AF]/;
+
+const fixed = (code: string, name: string) => () => ({ code, name });
+
+const WRITING_SYSTEMS: WritingSystem[] = [
+  {
+    pattern: /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/g,
+    direction: 'rtl',
+    identify: text => URDU_LETTERS.test(text) ? { code: 'ur', name: 'Urdu' }
+      : PERSIAN_LETTERS.test(text) ? { code: 'fa', name: 'Persian' }
+      : { code: 'ar', name: 'Arabic' }
+  },
+  { pattern: /[\u0590-\u05FF]/g, direction: 'rtl', identify: fixed('he', 'Hebrew') },
+  { pattern: /[\u0900-\u097F]/g, direction: 'ltr', identify: fixed('hi', 'Hindi') },
+  { pattern: /[\u0980-\u09FF]/g, direction: 'ltr', identify: fixed('bn', 'Bengali') },
+  { pattern: /[\u0A00-\u0A7F]/g, direction: 'ltr', identify: fixed('pa', 'Punjabi') },
+  { pattern: /[\u0400-\u04FF]/g, direction: 'ltr', identify: fixed('ru', 'Russian') },
+  { pattern: /[\u3040-\u30FF]/g, direction: 'ltr', identify: fixed('ja', 'Japanese') },
+  { pattern: /[\uAC00-\uD7AF]/g, direction: 'ltr', identify: fixed('ko', 'Korean') },
+  { pattern: /[\u4E00-\u9FFF]/g, direction: 'ltr', identify: text => /[\u3040-\u30FF]/.test(text) ? { code: 'ja', name: 'Japanese' } : { code: 'zh', name: 'Chinese' } },
+  { pattern: /[\u0E00-\u0E7F]/g, direction: 'ltr', identify: fixed('th', 'Thai') },
+  {
+    pattern: /[A-Za-z\u00C0-\u024F]/g,
+    direction: 'ltr',
+    identify: text => ENGLISH_WORDS.test(text) ? { code: 'en', name: 'English' } : { code: 'und', name: 'a Latin-script language' }
+  }
+];
+
+// A second writing system counts as mixed in from this share of the letters
+const MIXED_SHARE = 0.1;
+
+export const ENGLISH: ScriptLanguage = { code: 'en', name: 'English', direction: 'ltr' };
+
+export const detectLanguage = (text: string): ScriptLanguage => {
+  const counts = WRITING_SYSTEMS
+    .map(system => ({ system, letters: text.match(system.pattern)?.length ?? 0 }))
+    .filter(c => c.letters > 0)
+    .sort((a, b) => b.letters - a.letters);
+  if (counts.length === 0) return ENGLISH;
+  const total = counts.reduce((sum, c) => sum + c.letters, 0);
+  const [primary, second] = counts;
+  const language: ScriptLanguage = { ...primary.system.identify(text), direction: primary.system.direction };
+  const other = second && second.letters / total >= MIXED_SHARE ? second.system.identify(text).name : null;
+  // Japanese mixes kana with kanji, which on their own would read as Chinese
+  if (other && other !== language.name) language.mixedWith = other;
+  return language;
+};
+
+export const isEnglish = (language: ScriptLanguage | undefined): boolean => !language || (language.code === 'en' && !language.mixedWith);
+
+export const describeLanguage = (language: ScriptLanguage): string =>
+  language.mixedWith ? `${language.name} mixed with ${language.mixedWith}` : language.name;
+
+// Direction of one piece of text, from its first letter with a strong direction, as dir="auto" does
+export const textDirection = (text: string): TextDirection => {
+  const strong = text.match(STRONG_LETTER);
+  return strong && RTL_LETTER.test(strong[0]) ? 'rtl' : 'ltr';
+};
+
+// Guidance for the analysis model. Image models follow English best, so by default everything
+// the image model reads is written in English while the scene text stays as the author wrote it.
+export const buildLanguageInstruction = (language: ScriptLanguage | undefined, translatePrompts: boolean = true): string => {
+  if (isEnglish(language)) return '';
+  const source = language && language.code !== 'und' ? describeLanguage(language) : 'a language other than English';
+  return translatePrompts
+    ? `LANGUAGE: The script is in ${source}. Copy "originalText" exactly as written, in its original language and writing system; do not translate or transliterate it. Write everything else in English: "refinedPrompt", character and location descriptions, "visualStyle" and the continuity fields. Write character names in Latin letters and add the original spelling to their "aliases".`
+    : `LANGUAGE: The script is in ${source}. Copy "originalText" exactly as written, in its original language and writing system, and write every other field in the same language as the script.`;
+};
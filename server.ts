@@ -0,0 +1,192 @@
+// Backend for the web app and the CLI: holds the Gemini key so it never reaches the browser.
+//
+//   npm run server
+//
+// POST /api/analyze, /api/generate, /api/edit and /api/check answer with newline-delimited JSON
+// events (see apiProtocol.ts). VISIONBULK_UPSTREAM=mock serves the offline mock instead of Gemini.
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { loadEnv } from 'vite';
+import { AnalyzeRequest, ApiEvent, CheckRequest, DEFAULT_SERVER_PORT, EditRequest, errorBody, GenerateRequest } from './apiProtocol';
+import { Upstream, UsageEntry } from './types';
+import { onUsage } from './usage';
+
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // Reference images travel as base64
+const HEARTBEAT_MS = 15000; // Keeps proxies from closing a connection during a long generation
+const RATE_WINDOW_MS = 60000;
+
+// Server-side variables (the Gemini key included) from the same .env files as the web app
+const mode = process.env.NODE_ENV ?? 'development';
+for (const [key, value] of Object.entries(loadEnv(mode, process.cwd(), ''))) {
+  if (process.env[key] === undefined) process.env[key] = value;
+}
+
+const { describeError } = await import('./generationQueue');
+const { AnalysisError } = await import('./analysisValidation');
+const upstreamId = process.env.VISIONBULK_UPSTREAM === 'mock' ? 'mock' : 'gemini';
+const upstream: Upstream = upstreamId === 'mock'
+  ? (await import('./mockService')).mockProvider
+  : (await import('./geminiUpstream')).geminiUpstream;
+
+const port = Number(process.env.VISIONBULK_SERVER_PORT) || DEFAULT_SERVER_PORT;
+const rateLimit = Number(process.env.VISIONBULK_RATE_LIMIT) || 30;
+
+// VISIONBULK_API_TOKENS="alice:secret1,bob:secret2" (or just "secret"); unset leaves the server open
+const tokens = new Map(
+  (process.env.VISIONBULK_API_TOKENS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, i): [string, string] => {
+      const colon = entry.indexOf(':');
+      return colon === -1 ? [entry, `user-${i + 1}`] : [entry.slice(colon + 1), entry.slice(0, colon)];
+    })
+);
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const LOOPBACK = /^(::1|(::ffff:)?127\.)/;
+
+// Behind the Vite dev proxy every request comes from localhost. The proxy appends the browser's
+// address to X-Forwarded-For, so the last entry is the one to trust, and only from a local proxy.
+const clientAddress = (req: IncomingMessage): string => {
+  const address = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!forwarded || !LOOPBACK.test(address)) return address;
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded).split(',');
+  return hops[hops.length - 1].trim() || address;
+};
+
+// Who is calling, for the rate limit: the token's user name and the client address, or just the
+// address when the server is open. A shared token still gets one limit per machine.
+const identify = (req: IncomingMessage): string => {
+  const ip = `ip:${clientAddress(req)}`;
+  if (tokens.size === 0) return ip;
+  const token = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '')?.[1];
+  const user = token && tokens.get(token);
+  if (!user) throw new HttpError(401, 'Missing or invalid API token. Enter one of the server\'s tokens when the app asks, or set VISIONBULK_API_TOKEN for the CLI.');
+  return `${user}@${ip}`;
+};
+
+// Sliding window of request times per caller. Callers with nothing left in the window are swept
+// out, so the map only holds the last minute's callers.
+const recentRequests = new Map<string, number[]>();
+setInterval(() => {
+  const now = Date.now();
+  for (const [caller, times] of recentRequests) {
+    if (now - times[times.length - 1] >= RATE_WINDOW_MS) recentRequests.delete(caller);
+  }
+}, RATE_WINDOW_MS).unref();
+const checkRateLimit = (caller: string) => {
+  const now = Date.now();
+  const recent = (recentRequests.get(caller) ?? []).filter(t => now - t < RATE_WINDOW_MS);
+  if (recent.length >= rateLimit) {
+    const retryAfter = Math.ceil((RATE_WINDOW_MS - (now - recent[0])) / 1000);
+    recentRequests.set(caller, recent);
+    throw new HttpError(429, `Rate limit of ${rateLimit} requests per minute reached; retry in ${retryAfter}s.`, { 'Retry-After': String(retryAfter) });
+  }
+  recent.push(now);
+  recentRequests.set(caller, recent);
+};
+
+const readJson = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T;
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+const sendError = (res: ServerResponse, error: HttpError) => {
+  res.writeHead(error.status, { 'Content-Type': 'application/json', ...error.headers });
+  res.end(errorBody(error.status, error.message));
+};
+
+const toErrorEvent = (error: unknown): ApiEvent<never> => {
+  if (error instanceof AnalysisError) {
+    return { type: 'error', status: 422, message: error.message, analysis: { problems: error.problems, partial: error.partial, rawText: error.rawText } };
+  }
+  const status = (error as { status?: unknown })?.status;
+  return { type: 'error', status: typeof status === 'number' ? status : 500, message: describeError(error) };
+};
+
+// Upstream calls record usage into one shared ledger; this routes each entry to the request that made it
+const usageScope = new AsyncLocalStorage<(entry: UsageEntry) => void>();
+onUsage(entry => usageScope.getStore()?.(entry));
+
+// Headers go out at once; the work's outcome follows as the last event
+const stream = async <T>(res: ServerResponse, work: (progress: (message: string) => void) => Promise<T>) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+  const send = (event: ApiEvent<T>) => res.write(`${JSON.stringify(event)}\n`);
+  const heartbeat = setInterval(() => send({ type: 'heartbeat' }), HEARTBEAT_MS);
+  try {
+    const data = await usageScope.run(entry => send({ type: 'usage', entry }), () => work(message => send({ type: 'progress', message })));
+    send({ type: 'result', data });
+  } catch (error) {
+    send(toErrorEvent(error));
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  if (req.method === 'GET' && pathname === '/api/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true, upstream: upstreamId }));
+    return;
+  }
+  if (req.method !== 'POST' || !['/api/analyze', '/api/generate', '/api/edit', '/api/check'].includes(pathname)) {
+    throw new HttpError(404, `No route for ${req.method} ${pathname}`);
+  }
+
+  const caller = identify(req);
+  checkRateLimit(caller);
+
+  if (pathname === '/api/analyze') {
+    const { text, options } = await readJson<AnalyzeRequest>(req);
+    if (typeof text !== 'string' || !text.trim()) throw new HttpError(400, 'Nothing to analyze: "text" is empty.');
+    await stream(res, onStatus => upstream.analyzeScript(text, { ...options, onStatus }));
+  } else if (pathname === '/api/generate') {
+    const { prompt, characterContext, globalStyle, aspectRatio, references, style, setting } = await readJson<GenerateRequest>(req);
+    if (typeof prompt !== 'string' || !prompt.trim()) throw new HttpError(400, 'Nothing to generate: "prompt" is empty.');
+    await stream(res, () => upstream.generateImage(prompt, characterContext ?? '', globalStyle ?? '', aspectRatio, references ?? [], style, setting ?? ''));
+  } else if (pathname === '/api/edit') {
+    const { imageUrl, instruction, mask, references, aspectRatio } = await readJson<EditRequest>(req);
+    if (typeof imageUrl !== 'string' || !imageUrl.startsWith('data:image/')) throw new HttpError(400, 'Nothing to edit: "imageUrl" must be an image data URL.');
+    if (typeof instruction !== 'string' || !instruction.trim()) throw new HttpError(400, 'Nothing to do: "instruction" is empty.');
+    await stream(res, () => upstream.editImage(imageUrl, instruction, mask ?? null, references ?? [], aspectRatio));
+  } else {
+    const { imageUrl, expectation } = await readJson<CheckRequest>(req);
+    if (typeof imageUrl !== 'string' || !imageUrl.startsWith('data:image/')) throw new HttpError(400, 'Nothing to check: "imageUrl" must be an image data URL.');
+    if (!expectation || !Array.isArray(expectation.characters)) throw new HttpError(400, '"expectation" with a "characters" list is required.');
+    await stream(res, () => upstream.checkImage(imageUrl, { scene: expectation.scene ?? '', characters: expectation.characters, references: expectation.references ?? [] }));
+  }
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(error => {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendError(res, error instanceof HttpError ? error : new HttpError(500, describeError(error)));
+  });
+}).listen(port, () => {
+  console.log(`VisionBulk server on http://localhost:${port} (upstream: ${upstreamId})`);
+  if (tokens.size === 0) console.warn('VISIONBULK_API_TOKENS is not set: anyone who can reach this port can use it.');
+  if (upstreamId === 'gemini' && !process.env.GEMINI_API_KEY) console.warn('GEMINI_API_KEY is not set: Gemini requests will fail.');
+});
@@ -0,0 +1,141 @@
+import { ReferenceImage, StylePreset } from "./types";
+
+// Style preset library. Templates are plain text with {{placeholders}}; a line whose
+// placeholders all come out empty is dropped, so optional parts need no special syntax.
+//
+// Analysis template: {{style}}, {{negative}}
+// Image template:    {{style}}, {{visualStyle}}, {{characters}}, {{setting}}, {{references}}, {{scene}}, {{negative}}
+
+export const ANALYSIS_PLACEHOLDERS = ['style', 'negative'];
+export const IMAGE_PLACEHOLDERS = ['style', 'visualStyle', 'characters', 'setting', 'references', 'scene', 'negative'];
+
+const ANALYSIS_TEMPLATE = `Style: {{style}}.
+Write "visualStyle" and every "refinedPrompt" for this look so all scenes match.
+Avoid: {{negative}}.`;
+
+const imageTemplate = (heading: string, technical: string): string => `${heading}
+STYLE: {{style}}. {{visualStyle}}.
+ACTIVE CHARACTERS IN THIS SCENE: {{characters}}.
+SETTING: {{setting}}.
+{{references}}
+SCENE DESCRIPTION: {{scene}}.
+TECHNICAL: ${technical}
+AVOID: {{negative}}.`;
+
+export const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: 'photoreal',
+    name: 'Photoreal',
+    builtIn: true,
+    style: 'Professional Realistic Photography, 8k, cinematic lighting',
+    analysisTemplate: ANALYSIS_TEMPLATE,
+    imageTemplate: imageTemplate(
+      'PHOTOREALISTIC CINEMATIC IMAGE.',
+      '8k resolution, ultra-detailed, professional color grading, realistic skin textures, natural lighting.'
+    ),
+    negativePrompt: 'cartoon, illustration, painting, text, watermark, extra limbs'
+  },
+  {
+    id: 'anime',
+    name: 'Anime',
+    builtIn: true,
+    style: 'Anime key frame, cel shading, clean line art, vibrant colours, detailed painted backgrounds',
+    analysisTemplate: ANALYSIS_TEMPLATE,
+    imageTemplate: imageTemplate(
+      'ANIME KEY FRAME ILLUSTRATION.',
+      'crisp line art, flat cel shading, consistent character model proportions, expressive faces.'
+    ),
+    negativePrompt: 'photorealistic, 3D render, photo, blurry, text, watermark'
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolor',
+    builtIn: true,
+    style: 'Loose watercolour illustration, soft washes, visible paper texture, muted palette',
+    analysisTemplate: ANALYSIS_TEMPLATE,
+    imageTemplate: imageTemplate(
+      'WATERCOLOUR ILLUSTRATION.',
+      'wet-on-wet washes, soft bleeding edges, white of the paper as highlights, light ink outlines.'
+    ),
+    negativePrompt: 'photorealistic, 3D render, hard digital shading, text, watermark'
+  },
+  {
+    id: 'pencil-storyboard',
+    name: 'Pencil Storyboard',
+    builtIn: true,
+    style: 'Rough graphite pencil storyboard sketch, greyscale, loose hatching, clear staging',
+    analysisTemplate: `${ANALYSIS_TEMPLATE}
+Describe each "refinedPrompt" as a storyboard panel: shot size, camera angle and character blocking first.`,
+    imageTemplate: imageTemplate(
+      'STORYBOARD PANEL, PENCIL SKETCH.',
+      'graphite on white paper, quick gestural lines, simple hatching for shadows, readable silhouettes, no background detail beyond what staging needs.'
+    ),
+    negativePrompt: 'colour, photorealistic, detailed rendering, painting, text, watermark'
+  },
+  {
+    id: '3d-render',
+    name: '3D Render',
+    builtIn: true,
+    style: 'Stylised 3D animated feature render, soft global illumination, subsurface scattering',
+    analysisTemplate: ANALYSIS_TEMPLATE,
+    imageTemplate: imageTemplate(
+      '3D ANIMATED FILM STILL.',
+      'physically based materials, soft global illumination, gentle depth of field, appealing stylised proportions.'
+    ),
+    negativePrompt: 'photo, 2D drawing, flat shading, low poly, text, watermark'
+  }
+];
+
+export const DEFAULT_STYLE_PRESET = STYLE_PRESETS[0];
+
+export const findStylePreset = (id: string, custom: StylePreset[] = []): StylePreset | undefined =>
+  [...STYLE_PRESETS, ...custom].find(p => p.id === id);
+
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template
+    .split('\n')
+    .filter(line => {
+      const names = [...line.matchAll(/\{\{(\w+)\}\}/g)].map(m => m[1]);
+      return names.length === 0 || names.some(name => values[name]?.trim());
+    })
+    .map(line => line.replace(/\{\{(\w+)\}\}/g, (_, name: string) => values[name] ?? ''))
+    .join('\n')
+    .trim();
+
+export const buildAnalysisStyle = (preset: StylePreset): string =>
+  fillTemplate(preset.analysisTemplate, { style: preset.style, negative: preset.negativePrompt });
+
+export const buildImagePrompt = (
+  preset: StylePreset,
+  parts: { scene: string; characters: string; visualStyle: string; references: ReferenceImage[]; setting?: string }
+): string => {
+  const references = parts.references.length > 0
+    ? `REFERENCE IMAGES: ${parts.references.map((r, i) => `image ${i + 1} shows ${r.label}`).join('; ')}. Keep each character's face, hair, build and wardrobe identical to their reference.`
+    : '';
+  const setting = parts.setting?.trim() ?? '';
+  const prompt = fillTemplate(preset.imageTemplate, {
+    style: preset.style,
+    visualStyle: parts.visualStyle,
+    characters: parts.characters,
+    setting,
+    references,
+    scene: parts.scene,
+    negative: preset.negativePrompt
+  });
+  // Custom templates written before {{setting}} existed still get the scene's setting
+  return setting && !preset.imageTemplate.includes('{{setting}}') ? `${prompt}\nSETTING: ${setting}.` : prompt;
+};
+
+// Edits are not templated: the look comes from the image being edited. Image order is the
+// original, then the mask (if any), then character references.
+export const buildEditPrompt = (instruction: string, parts: { masked: boolean; references: ReferenceImage[] }): string => {
+  const offset = parts.masked ? 3 : 2;
+  return [
+    `EDIT image 1: ${instruction.trim()}`,
+    parts.masked ? 'MASK: image 2 marks the area to change in white. Leave everything outside it exactly as it is.' : '',
+    parts.references.length > 0
+      ? `REFERENCE IMAGES: ${parts.references.map((r, i) => `image ${i + offset} shows ${r.label}`).join('; ')}. Keep each character's face, hair, build and wardrobe identical to their reference.`
+      : '',
+    'Keep the composition, framing, lighting and style of image 1 unless the instruction says otherwise. Return one edited image.'
+  ].filter(Boolean).join('\n');
+};
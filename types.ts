@@ -1,7 +1,41 @@
-
 export interface CharacterInfo {
+  id: string; // Stable across renames; scenes refer to characters by this id
   name: string;
+  aliases?: string[]; // Nicknames, titles and short forms used in the script
   description: string;
+  referenceImages?: string[]; // Data URLs sent alongside the prompt for scenes this character is in
+}
+
+// A recurring place; scenes refer to it by id so every render of it looks the same
+export interface LocationInfo {
+  id: string;
+  name: string;
+  description: string; // Detailed visual description: layout, materials, colours, light, set dressing
+}
+
+// Per-scene staging details. Every field is optional; blanks are left to the model.
+export interface SceneContinuity {
+  locationId?: string;
+  timeOfDay?: string; // e.g. "dusk", "3 a.m."
+  weather?: string;
+  props?: string[]; // Objects that must be visible
+  wardrobe?: string; // Changes from the character sheet, e.g. "Ayesha wears a raincoat"
+  shot?: string; // Shot type or camera angle, e.g. "low-angle wide shot"
+}
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Language of a script, detected from its writing system; see scriptLanguage.ts
+export interface ScriptLanguage {
+  code: string; // ISO 639-1, or "und" when only the writing system is known
+  name: string; // In English, e.g. "Urdu"
+  direction: TextDirection;
+  mixedWith?: string; // A second language used throughout, e.g. English dialogue in an Urdu script
+}
+
+export interface ReferenceImage {
+  label: string; // Who the image shows, e.g. the character name
+  imageUrl: string;
 }
 
 export interface ScenePrompt {
@@ -9,13 +43,200 @@ export interface ScenePrompt {
   originalText: string;
   refinedPrompt: string;
   presentCharacters: string[]; // List of character names present in this scene
+  characterIds?: string[]; // Resolved cast; names above are kept in sync with it
+  unresolvedCharacters?: string[]; // Mentions that matched no character on the sheet
+  continuity?: SceneContinuity;
   status: 'pending' | 'generating' | 'completed' | 'error';
   imageUrl?: string;
   error?: string;
+  attempts?: number; // Generation attempts made in the current run, including retries
+  timing?: SceneTiming; // Source time range for scenes imported from subtitles
+  takes?: SceneTake[]; // Every generation of this scene, oldest first
+  selectedTakeId?: string; // imageUrl always mirrors the selected take
+}
+
+export interface SceneTake {
+  id: string;
+  imageUrl: string;
+  prompt: string; // Exact final prompt sent to the image model
+  createdAt: number;
+  cacheKey?: string; // Hash of the image request; see imageCache.ts
+  cached?: boolean; // Served from the image cache rather than a new request
+  editedFrom?: string; // Take this one was edited from
+  instruction?: string; // Edit instruction, for takes made by editing
+  qa?: ConsistencyReport; // Result of the consistency check, when one ran
+}
+
+// What a consistency check compares an image against
+export interface ConsistencyExpectation {
+  scene: string; // The scene's refined prompt
+  characters: { id: string; name: string; description: string }[]; // The scene's cast
+  references: ReferenceImage[];
+}
+
+export interface CharacterCheck {
+  characterId: string;
+  name: string;
+  present: boolean;
+  matches: boolean; // Looks like the character sheet / reference images
+  notes: string;
+}
+
+export interface ConsistencyReport {
+  score: number; // 0-100
+  peopleCount: number; // People visible in the image
+  expectedPeople: number;
+  characters: CharacterCheck[];
+  reasons: string[];
+  attempts: number; // Images generated before this one was kept, including itself
+  checkedAt: number;
+}
+
+export type UsageKind = 'analyze' | 'generate' | 'edit' | 'check';
+
+// One model call as billed: what the API reported it used, see usage.ts
+export interface UsageEntry {
+  model: string;
+  kind: UsageKind;
+  inputTokens: number;
+  outputTokens: number; // Including thinking tokens, which are billed as output
+  images: number; // Images returned
+  at: number;
+}
+
+// USD. Image models bill their images as output tokens; perImage is for models priced per image instead.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface GeneratedImage {
+  imageUrl: string;
+  prompt: string;
+}
+
+export interface SceneTiming {
+  start: number; // seconds
+  end: number;
+}
+
+export type ScriptFormat = 'text' | 'fountain' | 'fdx' | 'srt' | 'vtt' | 'docx';
+
+// A scene split out of a structured source file before analysis
+export interface SourceScene {
+  text: string;
+  characters: string[];
+  timing?: SceneTiming;
+}
+
+export interface ImportedScript {
+  format: ScriptFormat;
+  text: string;
+  scenes: SourceScene[] | null; // null when the source has no scene structure and the model should split it
+}
+
+export interface AnalyzeOptions {
+  scenes?: SourceScene[];
+  style?: StylePreset;
+  context?: string; // Text just before this part of a long script, for continuity only
+  knownCharacters?: CharacterInfo[]; // Characters found in earlier parts; their ids are reused
+  knownLocations?: LocationInfo[]; // Same, for locations
+  language?: ScriptLanguage;
+  translatePrompts?: boolean; // Write prompts and descriptions in English and keep originalText as written (default true)
+  onStatus?: (message: string) => void; // Progress notes such as validation retries; not sent over the wire
+}
+
+// Look of a project. Templates use {{placeholders}}; see stylePresets.ts for the list.
+export interface StylePreset {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  style: string; // Short description of the look, inserted as {{style}}
+  analysisTemplate: string; // Style guidance given to the script analysis
+  imageTemplate: string; // Final prompt sent to the image model
+  negativePrompt: string; // Things the image should avoid, inserted as {{negative}}
+}
+
+export interface QaOptions {
+  enabled: boolean;
+  threshold: number; // Images scoring below this are regenerated, then flagged
+  maxRegenerations: number;
+}
+
+export type OutputFormat = 'png' | 'jpeg' | 'webp';
+
+// How images are processed when they are downloaded; see imageOutput.ts
+export interface OutputOptions {
+  presetId: string; // Preset the options came from, or "custom"
+  format: OutputFormat;
+  quality: number; // 1-100, for JPEG and WebP
+  resize: 'original' | 'fit' | 'crop'; // fit scales within the target size; crop fills it and trims the overflow evenly
+  sizes: Record<string, { width: number; height: number }>; // Target pixels per aspect ratio
+  caption: 'none' | 'text' | 'number'; // Burned in along the bottom: the scene's original text, or "Scene 4"
+  watermarkText: string; // Empty for none
+  watermarkImage: string | null; // Logo as a data URL
+  watermarkOpacity: number; // 0-1
 }
 
 export interface AnalysisResult {
   characters: CharacterInfo[];
+  locations?: LocationInfo[]; // Missing in projects analyzed before the location sheet existed
+  language?: ScriptLanguage; // Language of originalText; prompts may be in English regardless
   visualStyle: string;
   scenes: ScenePrompt[];
 }
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Models a provider bills under, for cost estimates before anything is sent
+export interface ProviderModels {
+  analyze: string;
+  image: string;
+  check: string;
+}
+
+// Backend used by the pipeline for both script analysis and image generation
+export interface VisionProvider {
+  id: ProviderId;
+  label: string;
+  models: ProviderModels;
+  analyzeScript: (text: string, options?: AnalyzeOptions) => Promise<AnalysisResult>;
+  // setting: the scene's location and continuity, see buildSettingContext
+  generateImage: (prompt: string, characterContext: string, globalStyle: string, aspectRatio?: string, references?: ReferenceImage[], style?: StylePreset, setting?: string) => Promise<GeneratedImage>;
+  // mask: PNG data URL, white where the image may change
+  editImage: (imageUrl: string, instruction: string, mask?: string | null, references?: ReferenceImage[], aspectRatio?: string) => Promise<GeneratedImage>;
+  checkImage: (imageUrl: string, expectation: ConsistencyExpectation) => Promise<ConsistencyReport>;
+}
+
+// What the backend server calls to do the actual work (Gemini, or the mock for offline testing)
+export type Upstream = Pick<VisionProvider, 'analyzeScript' | 'generateImage' | 'editImage' | 'checkImage'>;
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  inputText: string;
+  aspectRatio: string;
+  providerId: ProviderId;
+  source?: ImportedScript | null; // Structured import the input text came from, if any
+  stylePreset?: StylePreset; // Active look, including any edits made in this project
+  customPresets?: StylePreset[]; // User-defined presets saved with this project
+  qa?: QaOptions;
+  budgetCap?: number | null; // USD per generation run; null for no cap
+  translatePrompts?: boolean; // See AnalyzeOptions
+  output?: OutputOptions;
+  usage?: UsageEntry[]; // Every model call made for this project
+  analysis: AnalysisResult | null;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  sceneCount: number;
+  completedCount: number;
+}
@@ -0,0 +1,100 @@
+import { ModelPrice, PriceTable, UsageEntry, UsageKind } from "./types";
+
+// Usage ledger: every model call reports what it used through recordUsage. Listeners keep the
+// entries (the web app per project, the CLI per run, the server per request) and prices turn
+// them into an estimated cost. Nothing here is billing-accurate; it is for budgeting.
+
+// USD per million tokens at the time of writing; override with VISIONBULK_PRICES
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'offline-mock': { inputPerMillion: 0, outputPerMillion: 0 }
+};
+
+// Gemini bills each generated image as this many output tokens, and each input image as about this many input tokens
+export const IMAGE_OUTPUT_TOKENS = 1290;
+export const IMAGE_INPUT_TOKENS = 258;
+// A consistency check answers with a short JSON verdict
+export const CHECK_OUTPUT_TOKENS = 200;
+
+const isPrice = (value: unknown): value is ModelPrice => {
+  const price = value as ModelPrice;
+  return typeof price === 'object' && price !== null
+    && typeof price.inputPerMillion === 'number' && typeof price.outputPerMillion === 'number'
+    && (price.perImage === undefined || typeof price.perImage === 'number');
+};
+
+// VISIONBULK_PRICES='{"gemini-2.5-flash-image":{"inputPerMillion":0.3,"outputPerMillion":30}}' adds or replaces models
+export const loadPriceTable = (json: string | undefined): PriceTable => {
+  if (!json?.trim()) return DEFAULT_PRICES;
+  try {
+    const overrides = JSON.parse(json) as Record<string, unknown>;
+    const valid = Object.entries(overrides).filter((entry): entry is [string, ModelPrice] => isPrice(entry[1]));
+    if (valid.length < Object.keys(overrides).length) console.warn('VISIONBULK_PRICES: ignored entries without numeric inputPerMillion and outputPerMillion');
+    return { ...DEFAULT_PRICES, ...Object.fromEntries(valid) };
+  } catch {
+    console.warn('VISIONBULK_PRICES is not valid JSON; using the default prices');
+    return DEFAULT_PRICES;
+  }
+};
+
+// Models missing from the table cost nothing, so an unknown model never blocks a run
+export const callCost = (entry: Pick<UsageEntry, 'model' | 'inputTokens' | 'outputTokens' | 'images'>, prices: PriceTable): number => {
+  const price = prices[entry.model];
+  if (!price) return 0;
+  return entry.inputTokens * price.inputPerMillion / 1e6 + entry.outputTokens * price.outputPerMillion / 1e6 + entry.images * (price.perImage ?? 0);
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+export const EMPTY_TOTALS: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 };
+
+export const addUsage = (totals: UsageTotals, entry: UsageEntry, prices: PriceTable): UsageTotals => ({
+  calls: totals.calls + 1,
+  inputTokens: totals.inputTokens + entry.inputTokens,
+  outputTokens: totals.outputTokens + entry.outputTokens,
+  images: totals.images + entry.images,
+  cost: totals.cost + callCost(entry, prices)
+});
+
+export const sumUsage = (entries: UsageEntry[], prices: PriceTable): UsageTotals =>
+  entries.reduce((totals, entry) => addUsage(totals, entry, prices), EMPTY_TOTALS);
+
+export const formatCost = (usd: number): string => `$${usd.toFixed(usd > 0 && usd < 1 ? 3 : 2)}`;
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1e6 ? `${(tokens / 1e6).toFixed(1)}M` : tokens >= 1e3 ? `${(tokens / 1e3).toFixed(1)}k` : String(tokens);
+
+// Rough count for text that hasn't been sent yet: about four characters per token
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Gemini's usageMetadata; fields are missing when the API didn't report them
+export interface ReportedUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
+
+export const usageEntry = (model: string, kind: UsageKind, reported: ReportedUsage | undefined, images: number): UsageEntry => ({
+  model,
+  kind,
+  inputTokens: reported?.promptTokenCount ?? 0,
+  outputTokens: (reported?.candidatesTokenCount ?? 0) + (reported?.thoughtsTokenCount ?? 0),
+  images,
+  at: Date.now()
+});
+
+const listeners = new Set<(entry: UsageEntry) => void>();
+
+export const onUsage = (listener: (entry: UsageEntry) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const recordUsage = (entry: UsageEntry) => listeners.forEach(listener => listener(entry));
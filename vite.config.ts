@@ -1,6 +1,8 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { appEnv } from './envConfig';
+import { DEFAULT_SERVER_PORT } from './apiProtocol';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -8,12 +10,20 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // API calls go to server.ts, which holds the Gemini key
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.VISIONBULK_SERVER_PORT || DEFAULT_SERVER_PORT}`,
+            // Passes the browser's address on, so the server limits each client rather than the proxy.
+            // The token is left to the browser: the dev server listens on every interface.
+            xfwd: true,
+          },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      define: Object.fromEntries(
+        Object.entries(appEnv(env)).map(([key, value]) => [`process.env.${key}`, JSON.stringify(value)])
+      ),
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),